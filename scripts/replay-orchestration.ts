@@ -0,0 +1,74 @@
+#!/usr/bin/env npx tsx
+/**
+ * Cassette Record/Replay Runner
+ *
+ * Record a full orchestration once against the real models:
+ *   CASSETTE_MODE=record CASSETTE_PATH=cassettes/todo.json npx tsx scripts/replay-orchestration.ts "Build a todo app" ./workdir
+ *
+ * Then play it back offline, as often as needed, with no API calls:
+ *   CASSETTE_MODE=replay CASSETTE_PATH=cassettes/todo.json npx tsx scripts/replay-orchestration.ts "Build a todo app" ./workdir
+ *
+ * Uses a dynamic org so the hierarchy comes from the task rather than the
+ * database's static agents. Escalations are answered by hand while recording
+ * (from the UI) and from the cassette on replay.
+ */
+
+import { startTask } from "../src/lib/orchestrator";
+import { getCassette } from "../src/lib/cassette";
+import { prisma } from "../src/lib/db";
+
+const GREEN = "\x1b[32m";
+const RED = "\x1b[31m";
+const BOLD = "\x1b[1m";
+const RESET = "\x1b[0m";
+
+const FINISHED = new Set(["completed", "failed", "stopped"]);
+
+async function main() {
+  const [task, workingDirectory] = process.argv.slice(2);
+  if (!task) {
+    console.error("Usage: npx tsx scripts/replay-orchestration.ts \"<task>\" [workingDirectory]");
+    process.exit(1);
+  }
+
+  const cassette = getCassette();
+  if (!cassette) {
+    console.error("Set CASSETTE_MODE=record or CASSETTE_MODE=replay");
+    process.exit(1);
+  }
+
+  console.log(`${BOLD}${cassette.mode === "record" ? "Recording" : "Replaying"}: ${task}${RESET}`);
+  const startedAt = Date.now();
+  const conversationId = await startTask(task, undefined, workingDirectory, true);
+
+  let status = "active";
+  while (!FINISHED.has(status)) {
+    await new Promise((r) => setTimeout(r, 1000));
+    const conversation = await prisma.conversation.findUnique({ where: { id: conversationId } });
+    status = conversation?.status ?? "failed";
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { conversationId, role: "activity" },
+    select: { metadata: true },
+  });
+  const events = new Map<string, number>();
+  for (const m of messages) {
+    const eventType = m.metadata ? (JSON.parse(m.metadata).eventType as string) : "unknown";
+    events.set(eventType, (events.get(eventType) ?? 0) + 1);
+  }
+
+  const color = status === "completed" ? GREEN : RED;
+  console.log(`\n${color}${status}${RESET} in ${((Date.now() - startedAt) / 1000).toFixed(1)}s (conversation ${conversationId})`);
+  for (const [eventType, count] of [...events].sort()) {
+    console.log(`  ${eventType.padEnd(24)} ${count}`);
+  }
+
+  await prisma.$disconnect();
+  process.exit(status === "completed" ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { resolveInheritedPolicy } from "@/lib/execution-policy";
+import { ROLE_TOOL_POLICIES } from "@/lib/tool-policy";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const agent = await prisma.agent.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!agent)
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  // Limits the agent gets from defaults, global settings and its org template
+  const inherited = await resolveInheritedPolicy(id);
+  // Tool policies inherit from the role, which the form may change before saving
+  return NextResponse.json({ inherited, roleToolPolicies: ROLE_TOOL_POLICIES });
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { detectProviderFromModel } from "@/lib/providers";
+import { resolveProviderFromModel, isSelectableProvider } from "@/lib/providers";
+import { parsePolicy, serializePolicy } from "@/lib/execution-policy";
+import { parseToolPolicy, serializeToolPolicy } from "@/lib/tool-policy";
 
 export async function GET(
   _req: NextRequest,
@@ -20,9 +22,6 @@ export async function GET(
   return NextResponse.json(agent);
 }
 
-// Roles that require full tool support (only Anthropic)
-const TOOL_REQUIRED_ROLES = ["underboss", "capo", "soldier"];
-
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -30,7 +29,7 @@ export async function PATCH(
   const { id } = await params;
   const body = await req.json();
 
-  // Get current agent to check combined state
+  // Get current agent to resolve the effective provider
   const currentAgent = await prisma.agent.findUnique({ where: { id } });
   if (!currentAgent) {
     return NextResponse.json({ error: "Agent not found" }, { status: 404 });
@@ -42,21 +41,24 @@ export async function PATCH(
 
   // If model changed but providerId wasn't explicitly set, auto-detect
   if (body.model && !body.providerId) {
-    finalProviderId = detectProviderFromModel(body.model);
+    finalProviderId = await resolveProviderFromModel(body.model);
     body.providerId = finalProviderId; // Include in update
   }
 
-  const finalRole = body.role ?? currentAgent.role ?? "soldier";
+  if (!isSelectableProvider(finalProviderId)) {
+    return NextResponse.json({ error: `Unknown provider "${finalProviderId}"` }, { status: 400 });
+  }
 
-  // Validate: non-Anthropic providers can only be used for analysis roles
-  if (finalProviderId !== "anthropic" && TOOL_REQUIRED_ROLES.includes(finalRole)) {
-    return NextResponse.json(
-      {
-        error: `Provider "${finalProviderId}" cannot be used for role "${finalRole}". Non-Anthropic providers (Kimi, OpenAI) can only analyze/report, not execute tasks. Use Anthropic for agents that need to delegate, execute code, or use tools.`,
-        hint: "Kimi is best used as a visual analysis helper, not as a task executor in the hierarchy."
-      },
-      { status: 400 }
-    );
+  // Policy arrives as an object (null clears the agent's overrides)
+  if (body.policy !== undefined) {
+    const { policy, error } = parsePolicy(body.policy);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+    body.policy = serializePolicy(policy);
+  }
+  if (body.toolPolicy !== undefined) {
+    const { policy, error } = parseToolPolicy(body.toolPolicy);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+    body.toolPolicy = serializeToolPolicy(policy);
   }
 
   const agent = await prisma.agent.update({
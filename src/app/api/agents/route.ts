@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { detectProviderFromModel } from "@/lib/providers";
+import { resolveProviderFromModel, isSelectableProvider } from "@/lib/providers";
+import { parsePolicy, serializePolicy } from "@/lib/execution-policy";
+import { parseToolPolicy, serializeToolPolicy } from "@/lib/tool-policy";
 
 export async function GET(req: NextRequest) {
   try {
@@ -19,26 +21,30 @@ export async function GET(req: NextRequest) {
   }
 }
 
-// Roles that require full tool support (only Anthropic)
-const TOOL_REQUIRED_ROLES = ["underboss", "capo", "soldier"];
-
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
 
     // Auto-detect provider from model name if not explicitly provided
     const model = body.model || "claude-sonnet-4-5-20250929";
-    const providerId = body.providerId || detectProviderFromModel(model);
-    const role = body.role || "soldier";
+    const providerId = body.providerId || await resolveProviderFromModel(model);
+
+    if (!isSelectableProvider(providerId)) {
+      return NextResponse.json({ error: `Unknown provider "${providerId}"` }, { status: 400 });
+    }
+
+    const { policy, error: policyError } = parsePolicy(body.policy);
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 });
+    }
+    const { policy: toolPolicy, error: toolPolicyError } = parseToolPolicy(body.toolPolicy);
+    if (toolPolicyError) {
+      return NextResponse.json({ error: toolPolicyError }, { status: 400 });
+    }
 
-    if (providerId !== "anthropic" && TOOL_REQUIRED_ROLES.includes(role)) {
-      return NextResponse.json(
-        {
-          error: `Provider "${providerId}" cannot be used for role "${role}". Non-Anthropic providers (Kimi, OpenAI) can only analyze/report, not execute tasks. Use Anthropic for agents that need to delegate, execute code, or use tools.`,
-          hint: "Kimi is best used as a visual analysis helper, not as a task executor in the hierarchy."
-        },
-        { status: 400 }
-      );
+    // The template the agent was loaded from; its policy is inherited
+    if (body.orgTemplateId && !(await prisma.orgTemplate.findUnique({ where: { id: body.orgTemplateId }, select: { id: true } }))) {
+      return NextResponse.json({ error: "Org template not found" }, { status: 400 });
     }
 
     const agent = await prisma.agent.create({
@@ -55,6 +61,9 @@ export async function POST(req: NextRequest) {
         orderIndex: body.orderIndex || 0,
         conversationId: body.conversationId || null,
         isDynamic: body.isDynamic || false,
+        policy: serializePolicy(policy),
+        toolPolicy: serializeToolPolicy(toolPolicy),
+        orgTemplateId: body.orgTemplateId || null,
       },
     });
     return NextResponse.json(agent, { status: 201 });
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forkConversation } from "@/lib/fork";
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await req.json();
+  const messageId = body.messageId as string | undefined;
+  const copyWorkingDirectory = body.copyWorkingDirectory === true;
+
+  if (!messageId) {
+    return NextResponse.json({ error: "messageId is required" }, { status: 400 });
+  }
+
+  try {
+    const conversationId = await forkConversation(id, messageId, { copyWorkingDirectory });
+    return NextResponse.json({ conversationId });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    const status =
+      msg === "Conversation not found" || msg === "Message not found in this conversation"
+        ? 404
+        : msg === "Conversation has no working directory to copy"
+          ? 400
+          : 500;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
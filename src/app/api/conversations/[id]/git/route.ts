@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const conversation = await prisma.conversation.findUnique({
+    where: { id },
+    select: { gitBranch: true, gitBaseBranch: true },
+  });
+  if (!conversation) {
+    return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+  }
+
+  const commits = await prisma.gitCommit.findMany({
+    where: { conversationId: id },
+    orderBy: { createdAt: "asc" },
+  });
+  return NextResponse.json({
+    branch: conversation.gitBranch,
+    baseBranch: conversation.gitBaseBranch,
+    commits,
+  });
+}
@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from "next/server";
+import { pauseOrchestration } from "@/lib/orchestrator";
+
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const paused = await pauseOrchestration(id);
+  if (!paused) {
+    return NextResponse.json({ error: "No running orchestration to pause" }, { status: 409 });
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resumeOrchestration, resumePausedOrchestration } from "@/lib/orchestrator";
+import { getInterruptedRun } from "@/lib/run-state";
+import { isPaused } from "@/lib/pause";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (isPaused(id)) {
+    return NextResponse.json({ resumable: true, paused: true, interruptedAgents: [] });
+  }
+  const run = await getInterruptedRun(id);
+  return NextResponse.json({
+    paused: false,
+    resumable: !!run,
+    interruptedAgents: run?.inProgress.map((a) => a.agentName) ?? [],
+  });
+}
+
+export async function POST(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  // A paused run picks up in place; an interrupted one is restarted from its saved state
+  if (await resumePausedOrchestration(id)) {
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    await resumeOrchestration(id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    const status = msg === "Conversation not found" ? 404 : 409;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLastAgentStep, retryAgentStep } from "@/lib/orchestrator";
+import { resolveProviderFromModel, isSelectableProvider, type ProviderId } from "@/lib/providers";
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const agentId = req.nextUrl.searchParams.get("agentId");
+  if (!agentId) {
+    return NextResponse.json({ error: "agentId is required" }, { status: 400 });
+  }
+
+  const step = await getLastAgentStep(id, agentId);
+  if (!step) {
+    return NextResponse.json({ error: "No previous step for this agent" }, { status: 404 });
+  }
+  return NextResponse.json(step);
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await req.json();
+  const agentId = body.agentId as string | undefined;
+  const task = body.task as string | undefined;
+  const model = body.model as string | undefined;
+
+  if (!agentId) {
+    return NextResponse.json({ error: "agentId is required" }, { status: 400 });
+  }
+  if (task !== undefined && typeof task !== "string") {
+    return NextResponse.json({ error: "task must be a string" }, { status: 400 });
+  }
+
+  // A different model may come from another provider; detect it unless given
+  const providerId: ProviderId | undefined = model ? body.providerId || await resolveProviderFromModel(model) : undefined;
+  if (providerId && !isSelectableProvider(providerId)) {
+    return NextResponse.json({ error: `Unknown provider "${providerId}"` }, { status: 400 });
+  }
+
+  try {
+    await retryAgentStep(id, agentId, { task, model, providerId });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    const status = msg === "Conversation not found" ? 404 : 409;
+    return NextResponse.json({ error: msg }, { status });
+  }
+}
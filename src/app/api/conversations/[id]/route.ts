@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { continueTask, cancelOrchestration } from "@/lib/orchestrator";
+import { getQueuePosition } from "@/lib/scheduler";
 import type { ImageInput } from "@/lib/anthropic-agent";
 
 export async function GET(
@@ -22,7 +23,7 @@ export async function GET(
   });
   if (!conversation)
     return NextResponse.json({ error: "Not found" }, { status: 404 });
-  return NextResponse.json(conversation);
+  return NextResponse.json({ ...conversation, queuePosition: getQueuePosition(id) });
 }
 
 export async function POST(
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getConversationUsage } from "@/lib/usage";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const conversation = await prisma.conversation.findUnique({
+    where: { id },
+    select: { id: true },
+  });
+  if (!conversation)
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const usage = await getConversationUsage(id);
+  return NextResponse.json(usage);
+}
@@ -2,6 +2,9 @@ import path from "path";
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { startTask } from "@/lib/orchestrator";
+import { getQueuePosition } from "@/lib/scheduler";
+import { parseBudget } from "@/lib/budget";
+import { parsePolicy } from "@/lib/execution-policy";
 import type { ImageInput } from "@/lib/anthropic-agent";
 
 export async function GET() {
@@ -9,7 +12,9 @@ export async function GET() {
     orderBy: { createdAt: "desc" },
     include: { _count: { select: { messages: true } } },
   });
-  return NextResponse.json(conversations);
+  return NextResponse.json(
+    conversations.map((c) => ({ ...c, queuePosition: getQueuePosition(c.id) }))
+  );
 }
 
 export async function POST(req: NextRequest) {
@@ -32,8 +37,26 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: "Working directory must be an absolute path" }, { status: 400 });
   }
 
+  // Optional { maxTokens, maxCostUsd, maxMinutes }; unset fields fall back to the global settings
+  const { budget, error: budgetError } = parseBudget(body.budget);
+  if (budgetError) {
+    return NextResponse.json({ error: budgetError }, { status: 400 });
+  }
+
+  // Optional execution policy overrides for this run (depth, invocations, turns, timeouts)
+  const { policy, error: policyError } = parsePolicy(body.policy);
+  if (policyError) {
+    return NextResponse.json({ error: policyError }, { status: 400 });
+  }
+
+  // Queue priority when the concurrency limit is reached; higher runs first
+  const priority = body.priority ?? 0;
+  if (!Number.isInteger(priority)) {
+    return NextResponse.json({ error: "priority must be an integer" }, { status: 400 });
+  }
+
   // Start task in background - don't await
-  const conversationIdPromise = startTask(task, images, workingDirectory, dynamicMode);
+  const conversationIdPromise = startTask(task, images, workingDirectory, dynamicMode, { budget, policy, priority });
 
   // We need to return the conversation ID, so we await it briefly
   // The orchestrator will continue running
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
 import { escalationManager } from "@/lib/escalation";
+import { APPROVAL_ANSWERS } from "@/lib/approval-gate";
 
 export async function POST(
   req: NextRequest,
@@ -13,8 +15,22 @@ export async function POST(
     return NextResponse.json({ error: "Answer is required" }, { status: 400 });
   }
 
+  // Tool approvals take a decision rather than free text
+  const kind = await prisma.escalation.findUnique({ where: { id }, select: { kind: true } });
+  if (kind?.kind === "approval" && !(APPROVAL_ANSWERS as readonly string[]).includes(answer)) {
+    return NextResponse.json({ error: `Answer must be one of: ${APPROVAL_ANSWERS.join(", ")}` }, { status: 400 });
+  }
+
   const resolved = escalationManager.resolveAnswer(id, answer);
   if (!resolved) {
+    // The agent waiting on this answer was lost in a server restart
+    const escalation = await prisma.escalation.findUnique({ where: { id }, select: { status: true } });
+    if (escalation?.status === "interrupted") {
+      return NextResponse.json(
+        { error: "This question was interrupted by a server restart. Resume the operation to continue." },
+        { status: 409 }
+      );
+    }
     return NextResponse.json(
       { error: "No pending escalation found with this ID" },
       { status: 404 }
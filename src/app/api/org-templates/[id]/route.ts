@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { parsePolicy, serializePolicy } from "@/lib/execution-policy";
 
 export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
@@ -11,10 +12,15 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   const body = await req.json();
-  const data: Record<string, string> = {};
+  const data: Record<string, string | null> = {};
   if (body.name) data.name = body.name;
   if (body.agents) data.agents = typeof body.agents === "string" ? body.agents : JSON.stringify(body.agents);
   if (body.relationships) data.relationships = typeof body.relationships === "string" ? body.relationships : JSON.stringify(body.relationships);
+  if (body.policy !== undefined) {
+    const { policy, error } = parsePolicy(body.policy);
+    if (error) return NextResponse.json({ error }, { status: 400 });
+    data.policy = serializePolicy(policy);
+  }
   const template = await prisma.orgTemplate.update({ where: { id }, data });
   return NextResponse.json(template);
 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { parsePolicy, serializePolicy } from "@/lib/execution-policy";
 
 export async function GET() {
   const templates = await prisma.orgTemplate.findMany({
@@ -14,6 +15,8 @@ export async function POST(req: NextRequest) {
   if (!name) return NextResponse.json({ error: "Name required" }, { status: 400 });
   if (!agents) return NextResponse.json({ error: "Agents required" }, { status: 400 });
   if (!relationships) return NextResponse.json({ error: "Relationships required" }, { status: 400 });
+  const { policy, error: policyError } = parsePolicy(body.policy);
+  if (policyError) return NextResponse.json({ error: policyError }, { status: 400 });
 
   // Validate they can be stringified/parsed
   try {
@@ -24,7 +27,7 @@ export async function POST(req: NextRequest) {
     if (typeof relationships === "string") JSON.parse(relationships);
 
     const template = await prisma.orgTemplate.create({
-      data: { name, agents: agentsStr, relationships: relsStr },
+      data: { name, agents: agentsStr, relationships: relsStr, policy: serializePolicy(policy) },
     });
     return NextResponse.json(template, { status: 201 });
   } catch (err) {
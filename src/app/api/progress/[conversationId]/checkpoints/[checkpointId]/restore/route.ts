@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProgressTracker } from "@/lib/progress-tracker";
+import { getOrchestrationStatus } from "@/lib/orchestrator";
+import { sseManager } from "@/lib/sse";
+
+type Context = {
+  params: Promise<{ conversationId: string; checkpointId: string }>;
+};
+
+/**
+ * POST /api/progress/[conversationId]/checkpoints/[checkpointId]/restore
+ * Roll the working directory, progress phases and agent contexts back to a
+ * checkpoint. The conversation must not be running.
+ */
+export async function POST(req: NextRequest, context: Context) {
+  const { conversationId, checkpointId } = await context.params;
+
+  if (getOrchestrationStatus(conversationId).isRunning) {
+    return NextResponse.json(
+      { error: "Conversation is running. Stop it before restoring a checkpoint." },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const result = await getProgressTracker(conversationId).restoreCheckpoint(checkpointId);
+    sseManager.emit(conversationId, "checkpoint_restored", { checkpointId, ...result });
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (message === "Checkpoint not found") {
+      return NextResponse.json({ error: message }, { status: 404 });
+    }
+    console.error("Error restoring checkpoint:", error);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProgressTracker } from "@/lib/progress-tracker";
+
+type Context = {
+  params: Promise<{ conversationId: string }>;
+};
+
+/**
+ * GET /api/progress/[conversationId]/checkpoints
+ * List checkpoints, newest first
+ */
+export async function GET(req: NextRequest, context: Context) {
+  const { conversationId } = await context.params;
+
+  try {
+    const checkpoints = await getProgressTracker(conversationId).listCheckpoints();
+    return NextResponse.json({ checkpoints });
+  } catch (error) {
+    console.error("Error listing checkpoints:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProgressTracker } from "@/lib/progress-tracker";
+
+type Context = {
+  params: Promise<{ conversationId: string; changeId: string }>;
+};
+
+/**
+ * GET /api/progress/[conversationId]/file-changes/[changeId]
+ * Get one file change with its unified diff
+ */
+export async function GET(req: NextRequest, context: Context) {
+  const { conversationId, changeId } = await context.params;
+
+  try {
+    const change = await getProgressTracker(conversationId).getFileChange(changeId);
+    if (!change) {
+      return NextResponse.json({ error: "File change not found" }, { status: 404 });
+    }
+    return NextResponse.json(change);
+  } catch (error) {
+    console.error("Error getting file change:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,8 @@ type Context = {
 
 /**
  * GET /api/progress/[conversationId]
- * Get progress summary for a conversation
+ * Get progress summary for a conversation, with every recorded file change
+ * (diffs are fetched per change from ./file-changes/[changeId])
  */
 export async function GET(req: NextRequest, context: Context) {
   const params = await context.params;
@@ -25,10 +26,12 @@ export async function GET(req: NextRequest, context: Context) {
 
     const summary = await tracker.getSummary();
     const contextSummary = await tracker.buildContextSummary();
+    const fileChanges = await tracker.getFileChanges();
 
     return NextResponse.json({
       summary,
       contextSummary,
+      fileChanges,
     });
   } catch (error) {
     console.error("Error getting progress:", error);
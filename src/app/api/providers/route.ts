@@ -2,11 +2,16 @@ import { NextResponse } from "next/server";
 import {
   getAllAvailableModels,
   getConfiguredProviders,
+  refreshProviderModels,
   PROVIDER_CAPABILITIES,
+  SELECTABLE_PROVIDER_IDS,
 } from "@/lib/providers";
 
 export async function GET() {
   try {
+    // Pull live model lists from providers that expose one (cached)
+    await refreshProviderModels();
+
     // Get all configured providers
     const configuredProviders = getConfiguredProviders();
 
@@ -23,21 +28,28 @@ export async function GET() {
     }));
 
     // Also include unconfigured providers for info
-    const allProviderIds = ["anthropic", "kimi", "openai"] as const;
+    const allProviderIds = SELECTABLE_PROVIDER_IDS;
+    const providerNames: Record<(typeof allProviderIds)[number], string> = {
+      anthropic: "Anthropic (Claude)",
+      kimi: "Kimi 2.5 (Moonshot)",
+      openai: "OpenAI",
+      local: "Local (OpenAI-compatible)",
+    };
+    const configHints: Record<(typeof allProviderIds)[number], string> = {
+      anthropic: "Set ANTHROPIC_API_KEY in .env",
+      kimi: "Set KIMI_API_KEY or MOONSHOT_API_KEY in .env",
+      openai: "Set OPENAI_API_KEY in .env (optionally OPENAI_BASE_URL for compatible gateways)",
+      local: "Set the local LLM endpoint on the Settings page",
+    };
     const unconfiguredProviders = allProviderIds
       .filter((id) => !configuredProviders.some((p) => p.id === id))
       .map((id) => ({
         id,
-        name: id === "anthropic" ? "Anthropic (Claude)" : id === "kimi" ? "Kimi 2.5 (Moonshot)" : "OpenAI",
+        name: providerNames[id],
         isConfigured: false,
         models: [],
         capabilities: PROVIDER_CAPABILITIES[id],
-        configHint:
-          id === "anthropic"
-            ? "Set ANTHROPIC_API_KEY in .env"
-            : id === "kimi"
-              ? "Set KIMI_API_KEY or MOONSHOT_API_KEY in .env"
-              : "Set OPENAI_API_KEY in .env",
+        configHint: configHints[id],
       }));
 
     return NextResponse.json({
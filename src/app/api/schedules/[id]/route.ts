@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { parseScheduleInput, computeNextRun } from "@/lib/schedules";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const schedule = await prisma.schedule.findUnique({
+    where: { id },
+    include: { orgTemplate: { select: { name: true } } },
+  });
+  if (!schedule) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  return NextResponse.json(schedule);
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const existing = await prisma.schedule.findUnique({ where: { id } });
+  if (!existing) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+
+  const body = await req.json();
+  const { input, error } = await parseScheduleInput(body, existing);
+  if (error || !input) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  // A new cron or re-enabling counts from now; otherwise keep the pending time
+  const reschedule = input.cron !== existing.cron || input.enabled !== existing.enabled;
+  const schedule = await prisma.schedule.update({
+    where: { id },
+    data: {
+      ...input,
+      ...(reschedule ? { nextRunAt: computeNextRun(input.cron, input.enabled) } : {}),
+    },
+  });
+  return NextResponse.json(schedule);
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    await prisma.schedule.delete({ where: { id } });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { runSchedule } from "@/lib/schedules";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const limit = Math.min(parseInt(req.nextUrl.searchParams.get("limit") || "50", 10) || 50, 200);
+
+  const schedule = await prisma.schedule.findUnique({ where: { id }, select: { id: true } });
+  if (!schedule) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+
+  const runs = await prisma.scheduleRun.findMany({
+    where: { scheduleId: id },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: { conversation: { select: { id: true, title: true, status: true } } },
+  });
+  return NextResponse.json(runs);
+}
+
+// Run the schedule's task now, outside its cron times
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    const run = await runSchedule(id);
+    return NextResponse.json(run, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Unknown error";
+    return NextResponse.json({ error: msg }, { status: msg === "Schedule not found" ? 404 : 500 });
+  }
+}
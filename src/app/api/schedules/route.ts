@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { parseScheduleInput, computeNextRun } from "@/lib/schedules";
+
+export async function GET() {
+  const schedules = await prisma.schedule.findMany({
+    orderBy: { createdAt: "desc" },
+    include: {
+      orgTemplate: { select: { name: true } },
+      runs: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+        include: { conversation: { select: { status: true } } },
+      },
+    },
+  });
+  return NextResponse.json(schedules);
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+  const { input, error } = await parseScheduleInput(body);
+  if (error || !input) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const schedule = await prisma.schedule.create({
+    data: { ...input, nextRunAt: computeNextRun(input.cron, input.enabled) },
+  });
+  return NextResponse.json(schedule, { status: 201 });
+}
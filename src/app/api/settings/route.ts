@@ -1,5 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import {
+  localProvider,
+  invalidateProviderModels,
+  normalizeLocalBaseUrl,
+  LOCAL_BASE_URL_SETTING,
+  LOCAL_API_KEY_SETTING,
+} from "@/lib/providers";
+import { BUDGET_SETTING_KEYS, isValidBudgetSetting } from "@/lib/budget";
+import { validatePolicySetting } from "@/lib/execution-policy";
+import { INTERRUPTED_RUN_SETTING, INTERRUPTED_RUN_ACTIONS } from "@/lib/run-state";
+import { SCHEDULER_SETTING_KEYS, validateSchedulerSetting, loadSchedulerLimits } from "@/lib/scheduler";
+import { validateApprovalSetting } from "@/lib/approval-gate";
+import { SANDBOX_NETWORK_SETTING } from "@/lib/sandbox";
 
 export async function GET() {
   try {
@@ -8,7 +21,10 @@ export async function GET() {
     for (const s of settings) {
       settingsMap[s.key] = s.value;
     }
-    return NextResponse.json(settingsMap);
+    // Never send the local endpoint's API key back - only whether there is one
+    const localApiKey = settingsMap[LOCAL_API_KEY_SETTING];
+    delete settingsMap[LOCAL_API_KEY_SETTING];
+    return NextResponse.json({ ...settingsMap, hasLocalLlmApiKey: !!localApiKey });
   } catch (err) {
     console.error("GET /api/settings:", err);
     return NextResponse.json({ error: "Failed to fetch settings" }, { status: 500 });
@@ -28,20 +44,64 @@ export async function PATCH(req: NextRequest) {
       return NextResponse.json({ error: "Missing or invalid value" }, { status: 400 });
     }
 
-    // Validate maxAgentTurns is a positive integer
-    if (key === "maxAgentTurns") {
-      const num = parseInt(value, 10);
-      if (isNaN(num) || num <= 0) {
-        return NextResponse.json({ error: "maxAgentTurns must be a positive integer" }, { status: 400 });
+    // Execution policy limits (maxAgentTurns, depth, timeouts); an empty value restores the default
+    const policyError = validatePolicySetting(key, value);
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 });
+    }
+
+    // Concurrency limits are positive integers; an empty value restores the default
+    const schedulerError = validateSchedulerSetting(key, value);
+    if (schedulerError) {
+      return NextResponse.json({ error: schedulerError }, { status: 400 });
+    }
+
+    // Approval gate switches; the Bash patterns are free text, one per line
+    const approvalError = validateApprovalSetting(key, value);
+    if (approvalError) {
+      return NextResponse.json({ error: approvalError }, { status: 400 });
+    }
+
+    // Budget limits are positive numbers; an empty value removes the limit
+    if ((Object.values(BUDGET_SETTING_KEYS) as string[]).includes(key) && !isValidBudgetSetting(value)) {
+      return NextResponse.json({ error: `${key} must be a positive number` }, { status: 400 });
+    }
+
+    // What boot recovery does with runs cut off by a restart
+    if (key === INTERRUPTED_RUN_SETTING && !(INTERRUPTED_RUN_ACTIONS as readonly string[]).includes(value)) {
+      return NextResponse.json({ error: `${key} must be one of: ${INTERRUPTED_RUN_ACTIONS.join(", ")}` }, { status: 400 });
+    }
+
+    // Whether code run by testers may reach the network
+    if (key === SANDBOX_NETWORK_SETTING && !["on", "off"].includes(value)) {
+      return NextResponse.json({ error: `${key} must be "on" or "off"` }, { status: 400 });
+    }
+
+    // Validate the local LLM endpoint; an empty value disables the provider
+    let storedValue = value;
+    if (key === LOCAL_BASE_URL_SETTING && value !== "") {
+      const normalized = normalizeLocalBaseUrl(value);
+      if (!normalized) {
+        return NextResponse.json({ error: `${LOCAL_BASE_URL_SETTING} must be an http(s) URL` }, { status: 400 });
       }
+      storedValue = normalized;
     }
 
     const setting = await prisma.setting.upsert({
       where: { key },
-      create: { key, value },
-      update: { value },
+      create: { key, value: storedValue },
+      update: { value: storedValue },
     });
 
+    if (key === LOCAL_BASE_URL_SETTING || key === LOCAL_API_KEY_SETTING) {
+      await localProvider.loadConfig();
+      invalidateProviderModels();
+    }
+
+    if ((Object.values(SCHEDULER_SETTING_KEYS) as string[]).includes(key)) {
+      await loadSchedulerLimits();
+    }
+
     return NextResponse.json(setting);
   } catch (err) {
     console.error("PATCH /api/settings:", err);
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { deliverWebhook } from "@/lib/webhooks";
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const limit = Math.min(parseInt(req.nextUrl.searchParams.get("limit") || "50", 10) || 50, 200);
+
+  const webhook = await prisma.webhook.findUnique({ where: { id }, select: { id: true } });
+  if (!webhook) return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { webhookId: id },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+  return NextResponse.json(deliveries);
+}
+
+// Send a "ping" event to check the endpoint and signature setup
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const webhook = await prisma.webhook.findUnique({ where: { id } });
+  if (!webhook) return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+
+  const delivery = await deliverWebhook(webhook, "ping", null, { message: "Test delivery from Agent Mafia" });
+  return NextResponse.json(delivery, { status: 201 });
+}
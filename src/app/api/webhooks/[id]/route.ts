@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { parseWebhookInput, parseWebhookEvents, invalidateWebhooks } from "@/lib/webhooks";
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const existing = await prisma.webhook.findUnique({ where: { id } });
+  if (!existing) return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+
+  const body = await req.json();
+  const { input, error } = parseWebhookInput(body, existing);
+  if (error || !input) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const { secret, events, ...webhook } = await prisma.webhook.update({ where: { id }, data: input });
+  invalidateWebhooks();
+  return NextResponse.json({ ...webhook, events: parseWebhookEvents(events), hasSecret: !!secret });
+}
+
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  try {
+    await prisma.webhook.delete({ where: { id } });
+    invalidateWebhooks();
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+  }
+}
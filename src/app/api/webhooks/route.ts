@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { parseWebhookInput, parseWebhookEvents, invalidateWebhooks, WEBHOOK_EVENTS } from "@/lib/webhooks";
+
+// Secrets are write-only: responses only say whether one is set
+function toResponse({ secret, events, ...webhook }: { secret: string | null; events: string } & Record<string, unknown>) {
+  return { ...webhook, events: parseWebhookEvents(events), hasSecret: !!secret };
+}
+
+export async function GET() {
+  const webhooks = await prisma.webhook.findMany({
+    orderBy: { createdAt: "desc" },
+    include: {
+      deliveries: { orderBy: { createdAt: "desc" }, take: 1, select: { status: true, createdAt: true } },
+    },
+  });
+  return NextResponse.json({ webhooks: webhooks.map(toResponse), events: WEBHOOK_EVENTS });
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json();
+  const { input, error } = parseWebhookInput(body);
+  if (error || !input) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  const webhook = await prisma.webhook.create({ data: input });
+  invalidateWebhooks();
+  return NextResponse.json(toResponse(webhook), { status: 201 });
+}
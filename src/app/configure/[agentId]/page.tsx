@@ -3,6 +3,8 @@
 import { useEffect, useState, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import type { RelationshipAction } from "@/types";
+import { PolicyFields, policyToForm, formToPolicy, emptyPolicyForm, type PolicyFormValues } from "@/components/policy-fields";
+import { ToolPolicyFields, toolPolicyToForm, formToToolPolicy, emptyToolPolicyForm, type ToolPolicyFormValues } from "@/components/tool-policy-fields";
 
 interface Relationship {
   id: string;
@@ -23,6 +25,8 @@ interface Agent {
   model: string;
   providerId: string;
   parentId: string | null;
+  policy: string | null;
+  toolPolicy: string | null;
   parent: { name: string; role: string } | null;
   children: { id: string; name: string; role: string }[];
   outgoingRels: Relationship[];
@@ -71,6 +75,10 @@ export default function AgentConfigPage() {
   });
 
   const [relForm, setRelForm] = useState({ action: "delegate" as string, toAgentId: "" });
+  const [policyForm, setPolicyForm] = useState<PolicyFormValues>(emptyPolicyForm());
+  const [inheritedPolicy, setInheritedPolicy] = useState<Partial<PolicyFormValues>>({});
+  const [toolPolicyForm, setToolPolicyForm] = useState<ToolPolicyFormValues>(emptyToolPolicyForm());
+  const [roleToolPolicies, setRoleToolPolicies] = useState<Record<string, Record<string, string[]>>>({});
 
   const loadAgent = useCallback(async () => {
     try {
@@ -87,6 +95,18 @@ export default function AgentConfigPage() {
         role: data.role,
         parentId: data.parentId || "",
       });
+      setPolicyForm(policyToForm(data.policy));
+      setToolPolicyForm(toolPolicyToForm(data.toolPolicy));
+
+      // Inherited limits are informational - the form still works without them
+      const policyRes = await fetch(`/api/agents/${agentId}/policy`);
+      if (policyRes.ok) {
+        const { inherited, roleToolPolicies } = await policyRes.json();
+        setRoleToolPolicies(roleToolPolicies ?? {});
+        const placeholders = policyToForm(inherited);
+        if (!placeholders.agentTimeoutMinutes) placeholders.agentTimeoutMinutes = "none";
+        setInheritedPolicy(placeholders);
+      }
     } catch (err) {
       console.error("LoadAgent:", err);
       setError("Failed to load agent. Please try again.");
@@ -141,13 +161,18 @@ export default function AgentConfigPage() {
           specialty: form.specialty || null,
           role: form.role,
           parentId: form.parentId || null,
+          policy: formToPolicy(policyForm),
+          toolPolicy: formToToolPolicy(toolPolicyForm),
         }),
       });
-      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
       loadAgent();
     } catch (err) {
       console.error("SaveAgent:", err);
-      setError("Failed to save agent. Please try again.");
+      setError(err instanceof Error && err.message ? err.message : "Failed to save agent. Please try again.");
     } finally {
       setSaving(false);
     }
@@ -252,6 +277,7 @@ export default function AgentConfigPage() {
               <option value="capo">Capo</option>
               <option value="soldier">Soldier</option>
               <option value="tester">Tester</option>
+              <option value="reviewer">Reviewer (read-only)</option>
               <option value="analyst">Analyst (Visual/Kimi)</option>
             </select>
           </div>
@@ -281,9 +307,9 @@ export default function AgentConfigPage() {
                 {providers.find(p => p.id === form.providerId)?.configHint}
               </p>
             )}
-            {form.providerId !== "anthropic" && ["underboss", "capo", "soldier"].includes(form.role) && (
-              <p className="text-xs text-red-400 mt-1">
-                Warning: {form.providerId} cannot execute tasks - only Anthropic agents can delegate, run code, and use tools. Consider using Anthropic for this role.
+            {form.providerId !== "anthropic" && (
+              <p className="text-xs text-text-muted mt-1">
+                Non-Claude agents get the orchestration tools (delegate, ask, progress, escalate, testing) but not Claude Code&apos;s native file and shell tools.
               </p>
             )}
           </div>
@@ -332,6 +358,25 @@ export default function AgentConfigPage() {
             placeholder="Instructions for this agent..."
           />
         </div>
+        <div>
+          <label className="text-xs text-text-muted block mb-1">Execution Policy</label>
+          <p className="text-xs text-text-muted mb-2">
+            Overrides for this agent. Empty fields inherit the value shown, from global settings or the org template the agent was loaded from. Limits set when starting an operation take precedence.
+          </p>
+          <PolicyFields values={policyForm} onChange={setPolicyForm} placeholders={inheritedPolicy} disabled={saving} />
+        </div>
+        <div>
+          <label className="text-xs text-text-muted block mb-1">Tool Permissions</label>
+          <p className="text-xs text-text-muted mb-2">
+            Comma-separated. Empty fields inherit what the agent&apos;s role allows; write &quot;none&quot; for an empty list. Calls outside these rules are refused and show up in the activity feed.
+          </p>
+          <ToolPolicyFields
+            values={toolPolicyForm}
+            onChange={setToolPolicyForm}
+            placeholders={toolPolicyToForm(roleToolPolicies[form.role])}
+            disabled={saving}
+          />
+        </div>
         <div className="flex justify-end">
           <button
             onClick={save}
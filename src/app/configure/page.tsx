@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useCallback, useRef, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import { PolicyFields, describePolicy, formToPolicy, emptyPolicyForm, type PolicyFormValues } from "@/components/policy-fields";
 
 interface Agent {
   id: string;
@@ -135,6 +136,8 @@ function ConfigurePageInner() {
   const [templateName, setTemplateName] = useState("");
   const [showLoadTemplates, setShowLoadTemplates] = useState(false);
   const [savingTemplate, setSavingTemplate] = useState(false);
+  const [templatePolicy, setTemplatePolicy] = useState<PolicyFormValues>(emptyPolicyForm());
+  const [localModels, setLocalModels] = useState<string[]>([]);
 
   // All nodes including boss
   const allNodes = [BOSS_NODE, ...agents];
@@ -168,6 +171,17 @@ function ConfigurePageInner() {
 
   useEffect(() => { loadData(); }, [loadData]);
 
+  // Self-hosted models are discovered at runtime, so they can't be hard-coded below
+  useEffect(() => {
+    fetch("/api/providers")
+      .then((r) => (r.ok ? r.json() : null))
+      .then((data) => {
+        const local = data?.providers?.find((p: { id: string }) => p.id === "local");
+        setLocalModels(local?.isConfigured ? local.models : []);
+      })
+      .catch((err) => console.error("LoadProviders:", err));
+  }, []);
+
   // Close context menu on click anywhere
   useEffect(() => {
     const handler = () => { setContextMenu(null); setRelContextMenu(null); };
@@ -716,6 +730,7 @@ function ConfigurePageInner() {
                 <option value="capo">Capo</option>
                 <option value="soldier">Soldier</option>
                 <option value="tester">Tester</option>
+                <option value="reviewer">Reviewer (read-only)</option>
                 <option value="analyst">Analyst (Visual/Kimi)</option>
               </select>
             </div>
@@ -734,6 +749,18 @@ function ConfigurePageInner() {
                   <option value="kimi-k2.5">Kimi K2.5 (Vision/Reasoning)</option>
                   <option value="kimi-latest">Kimi Latest (Vision)</option>
                 </optgroup>
+                <optgroup label="OpenAI">
+                  <option value="gpt-4.1">GPT-4.1</option>
+                  <option value="gpt-4o">GPT-4o</option>
+                  <option value="gpt-4o-mini">GPT-4o mini</option>
+                </optgroup>
+                {localModels.length > 0 && (
+                  <optgroup label="Local">
+                    {localModels.map((m) => (
+                      <option key={m} value={m}>{m}</option>
+                    ))}
+                  </optgroup>
+                )}
                 <optgroup label="Anthropic (Other)">
                   <option value="claude-opus-4-5-20251101">Opus 4.5</option>
                 </optgroup>
@@ -1078,6 +1105,7 @@ function ConfigurePageInner() {
                   <option value="capo">Capo</option>
                   <option value="soldier">Soldier</option>
                   <option value="tester">Tester</option>
+                  <option value="reviewer">Reviewer (read-only)</option>
                   <option value="analyst">Analyst (Visual/Kimi)</option>
                 </select>
               </div>
@@ -1097,6 +1125,18 @@ function ConfigurePageInner() {
                     <option value="kimi-k2.5">Kimi K2.5 (Vision/Reasoning)</option>
                     <option value="kimi-latest">Kimi Latest (Vision)</option>
                   </optgroup>
+                  <optgroup label="OpenAI">
+                    <option value="gpt-4.1">GPT-4.1</option>
+                    <option value="gpt-4o">GPT-4o</option>
+                    <option value="gpt-4o-mini">GPT-4o mini</option>
+                  </optgroup>
+                  {localModels.length > 0 && (
+                    <optgroup label="Local">
+                      {localModels.map((m) => (
+                        <option key={m} value={m}>{m}</option>
+                      ))}
+                    </optgroup>
+                  )}
                 </select>
               </div>
               <div>
@@ -1196,11 +1236,19 @@ function ConfigurePageInner() {
               placeholder="Template name..."
               className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent mb-4"
             />
+            <div className="mb-4">
+              <h3 className="text-xs font-medium text-text-muted mb-1">Execution Policy</h3>
+              <p className="text-[10px] text-text-muted mb-2">
+                Applies to agents loaded from this template. Empty fields use the global settings.
+              </p>
+              <PolicyFields values={templatePolicy} onChange={setTemplatePolicy} disabled={savingTemplate} compact />
+            </div>
             <div className="flex justify-end gap-3">
               <button
                 onClick={() => {
                   setShowSaveTemplate(false);
                   setTemplateName("");
+                  setTemplatePolicy(emptyPolicyForm());
                 }}
                 className="text-text-muted text-sm px-3 py-1.5 hover:text-text"
               >
@@ -1211,16 +1259,21 @@ function ConfigurePageInner() {
                   if (!templateName.trim()) return;
                   setSavingTemplate(true);
                   try {
-                    await fetch("/api/org-templates", {
+                    const res = await fetch("/api/org-templates", {
                       method: "POST",
                       headers: { "Content-Type": "application/json" },
-                      body: JSON.stringify({ name: templateName, agents, relationships }),
+                      body: JSON.stringify({ name: templateName, agents, relationships, policy: formToPolicy(templatePolicy) }),
                     });
+                    if (!res.ok) {
+                      const errData = await res.json().catch(() => ({}));
+                      throw new Error(errData.error || `Request failed (${res.status})`);
+                    }
                     setShowSaveTemplate(false);
                     setTemplateName("");
+                    setTemplatePolicy(emptyPolicyForm());
                   } catch (err) {
                     console.error(err);
-                    setError("Failed to save template.");
+                    setError(err instanceof Error && err.message ? `Failed to save template: ${err.message}` : "Failed to save template.");
                   } finally {
                     setSavingTemplate(false);
                   }
@@ -1249,6 +1302,11 @@ function ConfigurePageInner() {
                     <div>
                       <div className="text-sm font-medium">{t.name}</div>
                       <div className="text-xs text-text-muted">{new Date(t.createdAt).toLocaleDateString()}</div>
+                      {t.policy && (
+                        <div className="text-[10px] text-text-muted font-mono mt-0.5">
+                          {describePolicy(t.policy)}
+                        </div>
+                      )}
                     </div>
                     <div className="flex gap-2">
                       <button
@@ -1267,6 +1325,9 @@ function ConfigurePageInner() {
                                   specialty: agent.specialty,
                                   systemPrompt: agent.systemPrompt,
                                   model: agent.model,
+                                  policy: agent.policy ? JSON.parse(agent.policy) : null,
+                                  toolPolicy: agent.toolPolicy ? JSON.parse(agent.toolPolicy) : null,
+                                  orgTemplateId: t.id,
                                   parentId: null,
                                   posX: agent.posX ?? 100 + Math.random() * 400,
                                   posY: agent.posY ?? 100 + Math.random() * 300
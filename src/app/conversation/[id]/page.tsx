@@ -3,7 +3,12 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { ActivityTree, type TreeActivityItem } from "../../../components/activity-tree";
+import { RetryStepDialog } from "../../../components/retry-step-dialog";
 import { CodeExecutionPanel, type CodeExecutionResult, parseCompilationErrors } from "../../../components/code-execution-panel";
+import { UsagePanel } from "../../../components/usage-panel";
+import { GitPanel } from "../../../components/git-panel";
+import { FileChangesPanel } from "../../../components/file-changes-panel";
+import { CheckpointsPanel } from "../../../components/checkpoints-panel";
 
 interface Message {
   id: string;
@@ -19,6 +24,11 @@ interface Escalation {
   id: string;
   question: string;
   status: string;
+  // Tool approvals: the call waiting on the boss and what "always allow" covers
+  kind?: string;
+  tool?: string | null;
+  toolInput?: string | null;
+  rule?: string | null;
 }
 
 interface SSEEvent {
@@ -33,6 +43,7 @@ interface SSEEvent {
   escalationId?: string;
   result?: string;
   targetAgents?: TargetAgent[];
+  position?: number;
 }
 
 interface TargetAgent {
@@ -43,7 +54,7 @@ interface TargetAgent {
 
 interface ActivityItem {
   id: string;
-  type: "start" | "message" | "tool" | "tool_result" | "escalation" | "done";
+  type: "start" | "message" | "tool" | "tool_result" | "escalation" | "done" | "conflict" | "denied" | "approval";
   agentId?: string;
   agentName?: string;
   agentRole?: string;
@@ -52,9 +63,18 @@ interface ActivityItem {
   toolInput?: Record<string, unknown>;
   toolResult?: string;
   targetAgents?: TargetAgent[];
+  // For write conflicts: the file and the other agents that changed it
+  filePath?: string;
+  conflictAgents?: ConflictAgent[];
   timestamp: number;
 }
 
+interface ConflictAgent {
+  agentId: string;
+  agentName: string;
+  at: string;
+}
+
 const ROLE_COLORS: Record<string, string> = {
   underboss: "#8b5cf6",
   capo: "#facc15",
@@ -94,7 +114,14 @@ export default function ConversationPage() {
   const [activity, setActivity] = useState<ActivityItem[]>([]);
   const [answer, setAnswer] = useState("");
   const [status, setStatus] = useState("active");
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [retryAgent, setRetryAgent] = useState<{ id: string; name: string } | null>(null);
   const [workingDirectory, setWorkingDirectory] = useState<string | null>(null);
+  const [forkedFromId, setForkedFromId] = useState<string | null>(null);
+  const [gitBranch, setGitBranch] = useState<string | null>(null);
+  const [forkAt, setForkAt] = useState<Message | null>(null);
+  const [forkCopyDir, setForkCopyDir] = useState(false);
+  const [forking, setForking] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Follow-up chat state
@@ -120,6 +147,26 @@ export default function ConversationPage() {
   // Tester agent execution results
   const [executionResults, setExecutionResults] = useState<CodeExecutionResult[]>([]);
 
+  // Bumped on usage_update so the usage panel refetches
+  const [usageVersion, setUsageVersion] = useState(0);
+
+  // Bumped on git_commit so the git panel refetches
+  const [gitVersion, setGitVersion] = useState(0);
+
+  // Bumped on file_changes so the file changes panel refetches
+  const [fileChangesVersion, setFileChangesVersion] = useState(0);
+
+  // Bumped on checkpoint_created/checkpoint_restored so the checkpoints panel refetches
+  const [checkpointsVersion, setCheckpointsVersion] = useState(0);
+
+  // Latest budget warning or stop for this run
+  const [budgetAlert, setBudgetAlert] = useState<{ type: "warning" | "exceeded"; limit: string; summary: string } | null>(null);
+
+  // A failed operation whose run was cut off by a server restart can be resumed
+  const [resumable, setResumable] = useState(false);
+  const [resuming, setResuming] = useState(false);
+  const [pausing, setPausing] = useState(false);
+
   const bottomRef = useRef<HTMLDivElement>(null);
   const activityBottomRef = useRef<HTMLDivElement>(null);
 
@@ -136,6 +183,9 @@ export default function ConversationPage() {
       setMessages(displayMessages);
       setEscalations(data.escalations || []);
       setStatus(data.status);
+      setQueuePosition(data.queuePosition ?? null);
+      setForkedFromId(data.forkedFromId ?? null);
+      setGitBranch(data.gitBranch ?? null);
       if (data.workingDirectory) setWorkingDirectory(data.workingDirectory);
 
       // Reconstruct activity feed from persisted activity messages (only on first load)
@@ -153,6 +203,9 @@ export default function ConversationPage() {
             else if (eventType === "tool_result") type = "tool_result";
             else if (eventType === "escalation") type = "escalation";
             else if (eventType === "agent_done") type = "done";
+            else if (eventType === "file_conflict") type = "conflict";
+            else if (eventType === "tool_denied") type = "denied";
+            else if (eventType === "approval_requested" || eventType === "approval_resolved") type = "approval";
             else return null;
             return {
               id: m.id,
@@ -160,11 +213,13 @@ export default function ConversationPage() {
               agentId: meta.agentId as string | undefined,
               agentName: meta.agentName as string | undefined,
               agentRole: meta.role as string | undefined,
-              content: (meta.content || meta.task || meta.question) as string | undefined,
+              content: (meta.content || meta.task || meta.question || meta.reason || (meta.decision && describeDecision(meta.decision as string, meta.rule as string))) as string | undefined,
               tool: meta.tool as string | undefined,
               toolInput: meta.input as Record<string, unknown> | undefined,
               toolResult: meta.result as string | undefined,
               targetAgents: meta.targetAgents as TargetAgent[] | undefined,
+              filePath: meta.filePath as string | undefined,
+              conflictAgents: meta.otherAgents as ConflictAgent[] | undefined,
               timestamp: new Date(m.createdAt).getTime(),
             };
           }).filter((a): a is ActivityItem => a !== null);
@@ -190,6 +245,17 @@ export default function ConversationPage() {
     return () => clearInterval(interval);
   }, [loadConversation, status]);
 
+  useEffect(() => {
+    if (status !== "failed") {
+      setResumable(false);
+      return;
+    }
+    fetch(`/api/conversations/${conversationId}/resume`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setResumable(!!data?.resumable))
+      .catch(() => setResumable(false));
+  }, [conversationId, status]);
+
   // Check if this conversation used dynamic organization
   useEffect(() => {
     fetch(`/api/conversations/${conversationId}/org`)
@@ -228,12 +294,34 @@ export default function ConversationPage() {
       setActivity((prev) => [...prev, { id: crypto.randomUUID(), type: "tool_result", agentId: data.agentId, agentName: data.agentName, tool: data.tool, toolResult: data.result, timestamp: Date.now() }]);
     });
 
+    evtSource.addEventListener("file_conflict", (e) => {
+      const data = JSON.parse(e.data);
+      setActivity((prev) => [...prev, { id: crypto.randomUUID(), type: "conflict", agentId: data.agentId, agentName: data.agentName, filePath: data.filePath, conflictAgents: data.otherAgents, timestamp: Date.now() }]);
+    });
+
+    evtSource.addEventListener("tool_denied", (e) => {
+      const data = JSON.parse(e.data);
+      setActivity((prev) => [...prev, { id: crypto.randomUUID(), type: "denied", agentId: data.agentId, agentName: data.agentName, tool: data.tool, toolInput: data.input, content: data.reason, timestamp: Date.now() }]);
+    });
+
     evtSource.addEventListener("escalation", (e) => {
       const data: SSEEvent = JSON.parse(e.data);
       setActivity((prev) => [...prev, { id: crypto.randomUUID(), type: "escalation", agentId: data.agentId, agentName: data.agentName, content: data.question, timestamp: Date.now() }]);
       setEscalations((prev) => [...prev, { id: data.escalationId!, question: data.question!, status: "pending" }]);
     });
 
+    evtSource.addEventListener("approval_requested", (e) => {
+      const data = JSON.parse(e.data);
+      setActivity((prev) => [...prev, { id: crypto.randomUUID(), type: "approval", agentId: data.agentId, agentName: data.agentName, tool: data.tool, toolInput: data.input, content: data.question, timestamp: Date.now() }]);
+      setEscalations((prev) => [...prev, { id: data.escalationId, question: data.question, status: "pending", kind: "approval", tool: data.tool, toolInput: JSON.stringify(data.input), rule: data.rule }]);
+    });
+
+    evtSource.addEventListener("approval_resolved", (e) => {
+      const data = JSON.parse(e.data);
+      setActivity((prev) => [...prev, { id: crypto.randomUUID(), type: "approval", agentId: data.agentId, agentName: data.agentName, tool: data.tool, content: describeDecision(data.decision, data.rule), timestamp: Date.now() }]);
+      setEscalations((prev) => prev.filter((esc) => esc.id !== data.escalationId));
+    });
+
     evtSource.addEventListener("escalation_answered", (e) => {
       const data: SSEEvent = JSON.parse(e.data);
       setEscalations((prev) => prev.filter((esc) => esc.id !== data.escalationId));
@@ -249,6 +337,25 @@ export default function ConversationPage() {
       loadConversation();
     });
 
+    evtSource.addEventListener("task_queued", (e) => {
+      const data: SSEEvent = JSON.parse(e.data);
+      setStatus("queued");
+      setQueuePosition(data.position ?? null);
+    });
+
+    evtSource.addEventListener("task_dequeued", () => {
+      setStatus("active");
+      setQueuePosition(null);
+    });
+
+    evtSource.addEventListener("task_paused", () => {
+      setStatus("paused");
+    });
+
+    evtSource.addEventListener("task_resumed", () => {
+      setStatus("active");
+    });
+
     // Tester agent execution events
     evtSource.addEventListener("code_execution", (e) => {
       const data = JSON.parse(e.data);
@@ -274,16 +381,75 @@ export default function ConversationPage() {
       setExecutionResults((prev) => [...prev, result]);
     });
 
+    evtSource.addEventListener("build_progress", (e) => {
+      const data = JSON.parse(e.data);
+      setExecutionResults((prev) => {
+        const running = prev.find((r) => r.buildId === data.buildId);
+        if (!running) {
+          return [...prev, { status: "running", stdout: data.stdout, stderr: data.stderr, buildId: data.buildId, timestamp: Date.now() }];
+        }
+        return prev.map((r) =>
+          r === running ? { ...r, stdout: (r.stdout ?? "") + data.stdout, stderr: (r.stderr ?? "") + data.stderr } : r
+        );
+      });
+    });
+
     evtSource.addEventListener("build_complete", (e) => {
       const data = JSON.parse(e.data);
       const result: CodeExecutionResult = {
         status: data.success ? "success" : "error",
         stdout: data.output,
         stderr: data.errors,
+        exitCode: data.exitCode,
         errors: data.errors ? parseCompilationErrors(data.errors) : undefined,
+        buildId: data.buildId,
         timestamp: Date.now(),
       };
-      setExecutionResults((prev) => [...prev, result]);
+      // Replaces the streamed output of the same build, if any
+      setExecutionResults((prev) =>
+        data.buildId && prev.some((r) => r.buildId === data.buildId)
+          ? prev.map((r) => (r.buildId === data.buildId ? result : r))
+          : [...prev, result]
+      );
+    });
+
+    evtSource.addEventListener("usage_update", () => {
+      setUsageVersion((v) => v + 1);
+    });
+
+    evtSource.addEventListener("git_branch", (e) => {
+      setGitBranch(JSON.parse(e.data).branch);
+      setGitVersion((v) => v + 1);
+    });
+
+    evtSource.addEventListener("git_commit", () => {
+      setGitVersion((v) => v + 1);
+    });
+
+    evtSource.addEventListener("file_changes", () => {
+      setFileChangesVersion((v) => v + 1);
+    });
+
+    evtSource.addEventListener("checkpoint_created", () => {
+      setCheckpointsVersion((v) => v + 1);
+    });
+
+    // A restore rewrites files and may commit the rollback
+    evtSource.addEventListener("checkpoint_restored", () => {
+      setCheckpointsVersion((v) => v + 1);
+      setGitVersion((v) => v + 1);
+      setFileChangesVersion((v) => v + 1);
+    });
+
+    evtSource.addEventListener("budget_warning", (e) => {
+      const data = JSON.parse(e.data);
+      setBudgetAlert((prev) => prev?.type === "exceeded" ? prev : { type: "warning", limit: data.limit, summary: data.summary });
+    });
+
+    evtSource.addEventListener("budget_exceeded", (e) => {
+      const data = JSON.parse(e.data);
+      setBudgetAlert({ type: "exceeded", limit: data.limit, summary: data.summary });
+      setUsageVersion((v) => v + 1);
     });
 
     return () => evtSource.close();
@@ -342,6 +508,24 @@ export default function ConversationPage() {
     }
   };
 
+  const submitDecision = async (escalationId: string, decision: "approve" | "always" | "deny") => {
+    try {
+      setError(null);
+      const res = await fetch(`/api/escalations/${escalationId}/answer`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answer: decision }),
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+    } catch (err) {
+      console.error("SubmitDecision:", err);
+      setError(err instanceof Error && err.message ? err.message : "Failed to submit decision. Please try again.");
+    }
+  };
+
   const addFollowUpImages = (files: File[]) => {
     files.forEach((file) => {
       if (!file.type.startsWith("image/")) return;
@@ -419,15 +603,78 @@ export default function ConversationPage() {
         <div>
           <a href="/" className="text-xs text-text-muted hover:text-text mb-1 block">&larr; Dashboard</a>
           <h1 className="text-xl font-bold">Operation</h1>
+          {forkedFromId && (
+            <a href={`/conversation/${forkedFromId}`} className="text-[10px] text-text-muted hover:text-text block mt-0.5">
+              Forked from an earlier operation &rarr;
+            </a>
+          )}
           {workingDirectory && (
             <div className="flex items-center gap-1.5 mt-0.5">
               <span className="text-[10px] px-1.5 py-0.5 rounded bg-accent/10 text-accent">DIR</span>
               <span className="text-[10px] text-text-muted font-mono">{workingDirectory}</span>
+              {gitBranch && (
+                <>
+                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-accent/10 text-accent ml-1">BRANCH</span>
+                  <span className="text-[10px] text-text-muted font-mono">{gitBranch}</span>
+                </>
+              )}
             </div>
           )}
         </div>
         <div className="flex items-center gap-3">
           {status === "active" && (
+            <button
+              onClick={async () => {
+                try {
+                  setError(null);
+                  setPausing(true);
+                  const res = await fetch(`/api/conversations/${conversationId}/pause`, { method: "POST" });
+                  if (!res.ok) {
+                    const errData = await res.json().catch(() => ({}));
+                    throw new Error(errData.error || `Request failed (${res.status})`);
+                  }
+                  setStatus("paused");
+                } catch (err) {
+                  console.error("PauseJob:", err);
+                  setError(err instanceof Error ? err.message : "Failed to pause job. Please try again.");
+                } finally {
+                  setPausing(false);
+                }
+              }}
+              disabled={pausing}
+              title="Hold new delegations and tool calls; agents keep their context"
+              className="text-accent-gold text-xs hover:bg-accent-gold/10 px-3 py-1.5 rounded border border-accent-gold/30 transition-colors font-medium disabled:opacity-50"
+            >
+              {pausing ? "Pausing..." : "Pause"}
+            </button>
+          )}
+          {(status === "paused" || resumable) && (
+            <button
+              onClick={async () => {
+                try {
+                  setError(null);
+                  setResuming(true);
+                  const res = await fetch(`/api/conversations/${conversationId}/resume`, { method: "POST" });
+                  if (!res.ok) {
+                    const errData = await res.json().catch(() => ({}));
+                    throw new Error(errData.error || `Request failed (${res.status})`);
+                  }
+                  setStatus("active");
+                } catch (err) {
+                  console.error("ResumeJob:", err);
+                  setError(err instanceof Error ? err.message : "Failed to resume job. Please try again.");
+                } finally {
+                  setResuming(false);
+                }
+              }}
+              disabled={resuming}
+              title={status === "paused" ? "Continue from where the crew was paused" : "This operation was interrupted by a server restart"}
+              className="text-accent text-xs hover:bg-accent/10 px-3 py-1.5 rounded border border-accent/30 transition-colors font-medium disabled:opacity-50"
+            >
+              {resuming ? "Resuming..." : "Resume"}
+            </button>
+          )}
+          {(status === "active" || status === "paused" || status === "queued") && (
             <button
               onClick={async () => {
                 try {
@@ -488,8 +735,8 @@ export default function ConversationPage() {
               {exportCopied ? "✓ Copied!" : "Export Org"}
             </button>
           )}
-          <span className={`text-xs px-2 py-0.5 rounded ${status === "active" ? "bg-accent/20 text-accent" : status === "completed" ? "bg-success/20 text-success" : status === "stopped" ? "bg-danger/20 text-danger" : "bg-border text-text-muted"}`}>
-            {status}
+          <span className={`text-xs px-2 py-0.5 rounded ${status === "active" ? "bg-accent/20 text-accent" : status === "completed" ? "bg-success/20 text-success" : status === "stopped" ? "bg-danger/20 text-danger" : status === "paused" || status === "queued" ? "bg-accent-gold/20 text-accent-gold" : "bg-border text-text-muted"}`}>
+            {status === "queued" && queuePosition ? `queued #${queuePosition}` : status}
           </span>
         </div>
       </div>
@@ -529,8 +776,39 @@ export default function ConversationPage() {
         </div>
       )}
 
+      {/* Budget Banner */}
+      {budgetAlert && (
+        <div className={`rounded-lg p-3 flex items-center justify-between border ${budgetAlert.type === "exceeded" ? "bg-danger/10 border-danger/30" : "bg-accent-gold/10 border-accent-gold/30"}`}>
+          <div className="text-sm">
+            <span className={`font-medium ${budgetAlert.type === "exceeded" ? "text-danger" : "text-accent-gold"}`}>
+              {budgetAlert.type === "exceeded" ? "Budget exceeded - operation stopped" : "Budget warning - 80% used"}
+            </span>
+            <span className="text-text-muted ml-2">{budgetAlert.limit}: {budgetAlert.summary}</span>
+          </div>
+          <button onClick={() => setBudgetAlert(null)} className="text-text-muted hover:text-text text-xs">&times;</button>
+        </div>
+      )}
+
+      {/* Tool calls waiting for approval */}
+      {escalations.filter((e) => e.status === "pending" && e.kind === "approval").map((esc) => (
+        <div key={esc.id} className="bg-danger/10 border border-danger/30 rounded-lg p-4 space-y-2">
+          <div className="text-sm font-medium text-danger">Approval needed{esc.tool ? ` - ${TOOL_LABELS[esc.tool] || esc.tool}` : ""}</div>
+          <p className="text-sm">{esc.question}</p>
+          {esc.toolInput && (
+            <pre className="text-xs bg-bg rounded p-2 overflow-x-auto max-h-40 overflow-y-auto">{JSON.stringify(JSON.parse(esc.toolInput), null, 2)}</pre>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => submitDecision(esc.id, "approve")} className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded transition-colors">Approve once</button>
+            <button onClick={() => submitDecision(esc.id, "always")} className="border border-accent text-accent hover:bg-accent/10 text-sm px-4 py-1.5 rounded transition-colors" title={esc.rule ? `Always allow ${esc.rule} in this conversation` : undefined}>
+              Always allow{esc.rule ? ` ${esc.rule}` : ""}
+            </button>
+            <button onClick={() => submitDecision(esc.id, "deny")} className="border border-danger text-danger hover:bg-danger/10 text-sm px-4 py-1.5 rounded transition-colors ml-auto">Deny</button>
+          </div>
+        </div>
+      ))}
+
       {/* Escalation Banner */}
-      {escalations.filter((e) => e.status === "pending").map((esc) => (
+      {escalations.filter((e) => e.status === "pending" && e.kind !== "approval").map((esc) => (
         <div key={esc.id} className="bg-danger/10 border border-danger/30 rounded-lg p-4 space-y-2">
           <div className="text-sm font-medium text-danger">Escalation - Your input needed</div>
           <p className="text-sm">{esc.question}</p>
@@ -572,7 +850,7 @@ export default function ConversationPage() {
                 const msgWorkDir = meta?.workingDirectory as string | undefined;
 
                 return (
-                  <div key={msg.id} className={`text-sm ${msg.agentId ? "" : "bg-bg-hover rounded px-3 py-2"}`}>
+                  <div key={msg.id} className={`group text-sm ${msg.agentId ? "" : "bg-bg-hover rounded px-3 py-2"}`}>
                     <div className="flex items-center gap-2 text-xs mb-0.5">
                       {msg.agent ? (
                         <>
@@ -582,6 +860,16 @@ export default function ConversationPage() {
                       ) : (
                         <span className="text-accent font-medium">Boss</span>
                       )}
+                      <button
+                        onClick={() => {
+                          setForkCopyDir(false);
+                          setForkAt(msg);
+                        }}
+                        className="ml-auto text-[10px] text-text-muted hover:text-accent opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Start a new branch of this operation from this message"
+                      >
+                        Fork from here
+                      </button>
                     </div>
                     {/* Working directory badge on user messages */}
                     {msgWorkDir && (
@@ -679,7 +967,11 @@ export default function ConversationPage() {
           {/* Tree view */}
           {activityView === "tree" && (
             <div className="flex-1 overflow-y-auto p-2" style={{ background: "#08080f" }}>
-              <ActivityTree conversationId={isDynamicOrg ? conversationId : undefined} activity={activity as TreeActivityItem[]} />
+              <ActivityTree
+                conversationId={isDynamicOrg ? conversationId : undefined}
+                activity={activity as TreeActivityItem[]}
+                onSelectAgent={setRetryAgent}
+              />
             </div>
           )}
 
@@ -710,6 +1002,11 @@ export default function ConversationPage() {
                     )}
                     {item.type === "tool" && !item.targetAgents && item.toolInput && <p className="text-text-muted mt-0.5 truncate">{JSON.stringify(item.toolInput).slice(0, 80)}</p>}
                     {item.type === "tool_result" && <p className="text-text-muted mt-0.5 truncate">{item.toolResult?.slice(0, 80)}</p>}
+                    {item.type === "denied" && <p className="text-danger mt-0.5 truncate">{item.content}</p>}
+                    {item.type === "approval" && <p className="text-text-muted mt-0.5 truncate">{item.content}</p>}
+                    {item.type === "conflict" && (
+                      <p className="text-danger mt-0.5 truncate">{item.filePath} ↔ {item.conflictAgents?.map((a) => a.agentName).join(", ")}</p>
+                    )}
                   </div>
                 );
               })}
@@ -801,14 +1098,153 @@ export default function ConversationPage() {
               {selectedActivity.type === "done" && (
                 <p className="text-xs text-success">Agent completed their work.</p>
               )}
+
+              {selectedActivity.type === "approval" && (
+                <div className="space-y-2">
+                  <p className="text-xs">{selectedActivity.content}</p>
+                  {selectedActivity.toolInput && (
+                    <div>
+                      <span className="text-[10px] text-text-muted uppercase">Input</span>
+                      <pre className="text-xs bg-bg rounded p-2 mt-0.5 overflow-x-auto max-h-40 overflow-y-auto">{JSON.stringify(selectedActivity.toolInput, null, 2)}</pre>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedActivity.type === "denied" && (
+                <div className="space-y-2">
+                  <div>
+                    <span className="text-[10px] text-text-muted uppercase">Refused</span>
+                    <p className="text-xs text-danger mt-0.5">{selectedActivity.content}</p>
+                  </div>
+                  {selectedActivity.toolInput && (
+                    <div>
+                      <span className="text-[10px] text-text-muted uppercase">Input</span>
+                      <pre className="text-xs bg-bg rounded p-2 mt-0.5 overflow-x-auto max-h-40 overflow-y-auto">{JSON.stringify(selectedActivity.toolInput, null, 2)}</pre>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {selectedActivity.type === "conflict" && (
+                <div className="space-y-2">
+                  <div>
+                    <span className="text-[10px] text-text-muted uppercase">File</span>
+                    <p className="text-xs font-mono mt-0.5 break-all">{selectedActivity.filePath}</p>
+                  </div>
+                  <div>
+                    <span className="text-[10px] text-text-muted uppercase">Also Modified By</span>
+                    <div className="mt-0.5 space-y-0.5">
+                      {selectedActivity.conflictAgents?.map((a) => (
+                        <div key={a.agentId} className="text-xs flex items-center gap-1.5">
+                          <span className="text-accent">{a.agentName}</span>
+                          <span className="text-text-muted">at {new Date(a.at).toLocaleTimeString()}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-xs text-danger">Both agents were still running. {selectedActivity.agentName} was warned to re-read the file.</p>
+                </div>
+              )}
             </div>
           )}
         </div>
       </div>
+
+      {/* Token usage breakdown */}
+      <UsagePanel conversationId={conversationId} refreshKey={`${usageVersion}-${status}`} />
+
+      {/* Branch and per-agent commits when working in a git repo */}
+      <GitPanel conversationId={conversationId} refreshKey={`${gitVersion}-${status}`} />
+
+      {/* Files the agents created, modified or deleted, with diffs */}
+      <FileChangesPanel conversationId={conversationId} refreshKey={`${fileChangesVersion}-${status}`} />
+
+      {/* Saved checkpoints, with restore */}
+      <CheckpointsPanel
+        conversationId={conversationId}
+        running={status === "active" || status === "paused" || status === "queued"}
+        refreshKey={`${checkpointsVersion}-${status}`}
+      />
+
+      {/* Fork Modal */}
+      {forkAt && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-bg-card border border-border rounded-lg p-6 w-full max-w-md">
+            <h2 className="text-lg font-bold mb-1">Fork Operation</h2>
+            <p className="text-text-muted text-xs mb-4">
+              Creates a new operation with the messages, agent context and progress up to this message. Follow-ups on the fork don&apos;t affect this one.
+            </p>
+            <p className="text-xs whitespace-pre-wrap bg-bg rounded p-2 mb-4 max-h-24 overflow-y-auto">{forkAt.content.slice(0, 300)}</p>
+            {workingDirectory && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={forkCopyDir}
+                  onChange={(e) => setForkCopyDir(e.target.checked)}
+                  disabled={forking}
+                />
+                Work in a copy of the working directory
+              </label>
+            )}
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setForkAt(null)}
+                className="text-text-muted text-sm px-3 py-1.5 hover:text-text transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={async () => {
+                  try {
+                    setForking(true);
+                    setError(null);
+                    const res = await fetch(`/api/conversations/${conversationId}/fork`, {
+                      method: "POST",
+                      headers: { "Content-Type": "application/json" },
+                      body: JSON.stringify({ messageId: forkAt.id, copyWorkingDirectory: forkCopyDir }),
+                    });
+                    if (!res.ok) {
+                      const errData = await res.json().catch(() => ({}));
+                      throw new Error(errData.error || `Request failed (${res.status})`);
+                    }
+                    const data = await res.json();
+                    setForkAt(null);
+                    router.push(`/conversation/${data.conversationId}`);
+                  } catch (err) {
+                    console.error("Fork:", err);
+                    setForkAt(null);
+                    setError(err instanceof Error ? err.message : "Failed to fork operation");
+                  } finally {
+                    setForking(false);
+                  }
+                }}
+                disabled={forking}
+                className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {forking ? "Forking..." : "Fork"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <RetryStepDialog
+        conversationId={conversationId}
+        agent={retryAgent}
+        onClose={() => setRetryAgent(null)}
+        // A retry on a finished job starts a new run; one on a paused job waits for resume
+        onRetried={() => setStatus((prev) => (prev === "paused" ? prev : "active"))}
+      />
     </div>
   );
 }
 
+function describeDecision(decision: string, rule?: string): string {
+  if (decision === "always") return `Always allowed${rule ? ` ${rule}` : ""} for this conversation`;
+  return decision === "approve" ? "Approved once" : "Denied";
+}
+
 function StepTypeBadge({ type, tool }: { type: string; tool?: string }) {
   const labels: Record<string, { text: string; color: string }> = {
     start: { text: "started", color: "#3b82f6" },
@@ -817,6 +1253,9 @@ function StepTypeBadge({ type, tool }: { type: string; tool?: string }) {
     tool_result: { text: tool ? `${TOOL_LABELS[tool] || tool} result` : "result", color: "#a78bfa" },
     escalation: { text: "escalated", color: "#ef4444" },
     done: { text: "done", color: "#22c55e" },
+    conflict: { text: "file conflict", color: "#ef4444" },
+    denied: { text: tool ? `${TOOL_LABELS[tool] || tool} denied` : "denied", color: "#ef4444" },
+    approval: { text: "approval", color: "#f59e0b" },
   };
   const label = labels[type] || { text: type, color: "#6a6a7a" };
   return (
@@ -3,6 +3,7 @@
 import { useEffect, useState, useCallback } from "react";
 import { useParams } from "next/navigation";
 import ReactMarkdown from "react-markdown";
+import { UsagePanel } from "../../../../components/usage-panel";
 
 interface Message {
   id: string;
@@ -158,6 +159,10 @@ export default function ReportPage() {
           <p className="text-text-muted text-sm">No report was generated for this operation.</p>
         </div>
       )}
+
+      <div className="mt-6">
+        <UsagePanel conversationId={conversationId} refreshKey={data.status} />
+      </div>
     </div>
   );
 }
@@ -13,6 +13,8 @@ interface Conversation {
   status: string;
   createdAt: string;
   _count: { messages: number };
+  // 1-based place in the scheduler queue while status is "queued"
+  queuePosition?: number | null;
 }
 
 export default function Dashboard() {
@@ -344,7 +346,7 @@ export default function Dashboard() {
                       className={`flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium ${
                         c.status === "active"
                           ? "bg-success/20 text-success status-pulse"
-                          : c.status === "pending"
+                          : c.status === "pending" || c.status === "queued"
                           ? "bg-gold/20 text-gold"
                           : "bg-border/20 text-text-muted"
                       }`}
@@ -352,11 +354,11 @@ export default function Dashboard() {
                       <span className={`w-1.5 h-1.5 rounded-full ${
                         c.status === "active"
                           ? "bg-success"
-                          : c.status === "pending"
+                          : c.status === "pending" || c.status === "queued"
                           ? "bg-gold"
                           : "bg-text-muted"
                       }`} />
-                      {c.status}
+                      {c.status === "queued" && c.queuePosition ? `#${c.queuePosition} in queue` : c.status}
                     </span>
                     <button
                       onClick={(e) => {
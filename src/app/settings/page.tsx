@@ -1,13 +1,32 @@
 "use client";
 
 import { useEffect, useState } from "react";
+import { PolicyFields, emptyPolicyForm, type PolicyField, type PolicyFormValues } from "@/components/policy-fields";
+import { POLICY_SETTING_KEYS } from "@/lib/execution-policy-keys";
+
+// Asked about when no patterns are set (mirrors DEFAULT_APPROVAL_BASH_PATTERNS)
+const DEFAULT_APPROVAL_PATTERNS = "rm -rf *\nrm -fr *\ngit push *\ngit reset --hard *\nnpm install *\nnpm i *\nyarn add *\npnpm add *\npip install *\nsudo *";
 
 export default function SettingsPage() {
-  const [maxAgentTurns, setMaxAgentTurns] = useState<string>("200");
+  const [policy, setPolicy] = useState<PolicyFormValues>(emptyPolicyForm());
+  const [interruptedRunAction, setInterruptedRunAction] = useState<"fail" | "resume">("fail");
+  const [sandboxNetwork, setSandboxNetwork] = useState<"on" | "off">("off");
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [localBaseUrl, setLocalBaseUrl] = useState("");
+  // Only a new key is typed here; the saved one is never sent to the browser
+  const [localApiKey, setLocalApiKey] = useState("");
+  const [hasLocalApiKey, setHasLocalApiKey] = useState(false);
+  const [localModels, setLocalModels] = useState<string[] | null>(null);
+  const [savingLocal, setSavingLocal] = useState(false);
+  const [budget, setBudget] = useState({ budgetMaxTokens: "", budgetMaxCostUsd: "", budgetMaxMinutes: "" });
+  const [savingBudget, setSavingBudget] = useState(false);
+  const [concurrency, setConcurrency] = useState({ maxConcurrentConversations: "", maxConcurrentAgents: "" });
+  const [savingConcurrency, setSavingConcurrency] = useState(false);
+  const [approval, setApproval] = useState({ approvalGate: "off", approvalBashPatterns: "", approvalOutsideWrites: "true", approvalNetwork: "true" });
+  const [savingApproval, setSavingApproval] = useState(false);
 
   useEffect(() => {
     loadSettings();
@@ -20,8 +39,33 @@ export default function SettingsPage() {
       const res = await fetch("/api/settings");
       if (!res.ok) throw new Error(`Failed to load settings (${res.status})`);
       const data = await res.json();
-      if (data.maxAgentTurns) {
-        setMaxAgentTurns(data.maxAgentTurns);
+      const loadedPolicy = emptyPolicyForm();
+      for (const [field, key] of Object.entries(POLICY_SETTING_KEYS) as [PolicyField, string][]) {
+        loadedPolicy[field] = data[key] || "";
+      }
+      setPolicy(loadedPolicy);
+      setInterruptedRunAction(data.interruptedRunAction === "resume" ? "resume" : "fail");
+      setSandboxNetwork(data.sandboxNetwork === "on" ? "on" : "off");
+      setLocalBaseUrl(data.localLlmBaseUrl || "");
+      setLocalApiKey("");
+      setHasLocalApiKey(!!data.hasLocalLlmApiKey);
+      setBudget({
+        budgetMaxTokens: data.budgetMaxTokens || "",
+        budgetMaxCostUsd: data.budgetMaxCostUsd || "",
+        budgetMaxMinutes: data.budgetMaxMinutes || "",
+      });
+      setConcurrency({
+        maxConcurrentConversations: data.maxConcurrentConversations || "",
+        maxConcurrentAgents: data.maxConcurrentAgents || "",
+      });
+      setApproval({
+        approvalGate: data.approvalGate === "on" ? "on" : "off",
+        approvalBashPatterns: data.approvalBashPatterns || "",
+        approvalOutsideWrites: data.approvalOutsideWrites === "false" ? "false" : "true",
+        approvalNetwork: data.approvalNetwork === "false" ? "false" : "true",
+      });
+      if (data.localLlmBaseUrl) {
+        loadLocalModels();
       }
     } catch (err) {
       console.error("loadSettings:", err);
@@ -31,27 +75,163 @@ export default function SettingsPage() {
     }
   };
 
-  const saveSettings = async () => {
+  const loadLocalModels = async () => {
     try {
-      setSaving(true);
+      const res = await fetch("/api/providers");
+      if (!res.ok) throw new Error(`Failed to load providers (${res.status})`);
+      const data = await res.json();
+      const local = (data.providers || []).find((p: { id: string }) => p.id === "local");
+      setLocalModels(local?.isConfigured ? local.models : null);
+    } catch (err) {
+      console.error("loadLocalModels:", err);
+      setLocalModels(null);
+    }
+  };
+
+  // An empty key field keeps the saved key; clearKey removes it
+  const saveLocalEndpoint = async (clearKey = false) => {
+    try {
+      setSavingLocal(true);
       setError(null);
       setSuccess(false);
 
-      const num = parseInt(maxAgentTurns, 10);
-      if (isNaN(num) || num <= 0) {
-        setError("Max Agent Turns must be a positive integer");
-        return;
+      const updates: [string, string][] = [["localLlmBaseUrl", localBaseUrl.trim()]];
+      if (clearKey || localApiKey.trim()) updates.push(["localLlmApiKey", clearKey ? "" : localApiKey.trim()]);
+      for (const [key, value] of updates) {
+        const res = await fetch("/api/settings", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, value }),
+        });
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || `Request failed (${res.status})`);
+        }
+        if (key === "localLlmBaseUrl") {
+          const saved = await res.json();
+          setLocalBaseUrl(saved.value);
+        } else {
+          setHasLocalApiKey(!!value);
+          setLocalApiKey("");
+        }
       }
 
-      const res = await fetch("/api/settings", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ key: "maxAgentTurns", value: maxAgentTurns }),
-      });
+      await loadLocalModels();
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error("saveLocalEndpoint:", err);
+      setError(err instanceof Error ? err.message : "Failed to save local endpoint");
+    } finally {
+      setSavingLocal(false);
+    }
+  };
 
-      if (!res.ok) {
-        const errData = await res.json();
-        throw new Error(errData.error || `Request failed (${res.status})`);
+  const saveBudget = async () => {
+    try {
+      setSavingBudget(true);
+      setError(null);
+      setSuccess(false);
+
+      for (const [key, value] of Object.entries(budget)) {
+        const res = await fetch("/api/settings", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, value: value.trim() }),
+        });
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || `Request failed (${res.status})`);
+        }
+      }
+
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error("saveBudget:", err);
+      setError(err instanceof Error ? err.message : "Failed to save budget");
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
+  const saveConcurrency = async () => {
+    try {
+      setSavingConcurrency(true);
+      setError(null);
+      setSuccess(false);
+
+      for (const [key, value] of Object.entries(concurrency)) {
+        const res = await fetch("/api/settings", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, value: value.trim() }),
+        });
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || `Request failed (${res.status})`);
+        }
+      }
+
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error("saveConcurrency:", err);
+      setError(err instanceof Error ? err.message : "Failed to save concurrency limits");
+    } finally {
+      setSavingConcurrency(false);
+    }
+  };
+
+  const saveApproval = async () => {
+    try {
+      setSavingApproval(true);
+      setError(null);
+      setSuccess(false);
+
+      for (const [key, value] of Object.entries(approval)) {
+        const res = await fetch("/api/settings", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, value: value.trim() }),
+        });
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || `Request failed (${res.status})`);
+        }
+      }
+
+      setSuccess(true);
+      setTimeout(() => setSuccess(false), 3000);
+    } catch (err) {
+      console.error("saveApproval:", err);
+      setError(err instanceof Error ? err.message : "Failed to save approval settings");
+    } finally {
+      setSavingApproval(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      setSuccess(false);
+
+      const entries: [string, string][] = [
+        ...(Object.entries(POLICY_SETTING_KEYS) as [PolicyField, string][]).map(([field, key]): [string, string] => [key, policy[field].trim()]),
+        ["interruptedRunAction", interruptedRunAction],
+        ["sandboxNetwork", sandboxNetwork],
+      ];
+      for (const [key, value] of entries) {
+        const res = await fetch("/api/settings", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ key, value }),
+        });
+        if (!res.ok) {
+          const errData = await res.json();
+          throw new Error(errData.error || `Request failed (${res.status})`);
+        }
       }
 
       setSuccess(true);
@@ -66,9 +246,19 @@ export default function SettingsPage() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold">Settings</h1>
-        <p className="text-text-muted text-sm mt-1">Configure system-wide settings for Agent Mafia</p>
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Settings</h1>
+          <p className="text-text-muted text-sm mt-1">Configure system-wide settings for Agent Mafia</p>
+        </div>
+        <div className="flex gap-4">
+          <a href="/settings/schedules" className="text-sm text-text-muted hover:text-text transition-colors">
+            Scheduled Tasks →
+          </a>
+          <a href="/settings/webhooks" className="text-sm text-text-muted hover:text-text transition-colors">
+            Webhooks →
+          </a>
+        </div>
       </div>
 
       {error && (
@@ -86,22 +276,41 @@ export default function SettingsPage() {
 
       <div className="bg-bg-card border border-border rounded-lg p-6 space-y-4">
         <div>
-          <label htmlFor="maxAgentTurns" className="block text-sm font-medium mb-2">
-            Max Agent Turns
-          </label>
-          <p className="text-text-muted text-xs mb-3">
-            Maximum number of turns (API round-trips) an agent can take before stopping. Higher values allow for more complex tasks but increase costs.
+          <h2 className="text-sm font-medium mb-1">Execution Policy</h2>
+          <p className="text-text-muted text-xs">
+            Limits on how far an operation can run. Higher values allow for more complex tasks but increase costs. Org templates, individual agents and operations can override these. Leave empty for the built-in default.
           </p>
-          <input
-            id="maxAgentTurns"
-            type="number"
-            min="1"
-            value={maxAgentTurns}
-            onChange={(e) => setMaxAgentTurns(e.target.value)}
+        </div>
+        <PolicyFields values={policy} onChange={setPolicy} disabled={loading || saving} />
+        <div>
+          <label htmlFor="interruptedRunAction" className="text-xs text-text-muted block mb-1">
+            After a server restart
+          </label>
+          <select
+            id="interruptedRunAction"
+            value={interruptedRunAction}
+            onChange={(e) => setInterruptedRunAction(e.target.value as "fail" | "resume")}
             disabled={loading || saving}
-            className="w-full max-w-xs bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
-            placeholder="200"
-          />
+            className="w-full max-w-xs bg-bg border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+          >
+            <option value="fail">Mark interrupted operations failed (resume by hand)</option>
+            <option value="resume">Resume interrupted operations automatically</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="sandboxNetwork" className="text-xs text-text-muted block mb-1">
+            Network for code run by testers
+          </label>
+          <select
+            id="sandboxNetwork"
+            value={sandboxNetwork}
+            onChange={(e) => setSandboxNetwork(e.target.value as "on" | "off")}
+            disabled={loading || saving}
+            className="w-full max-w-xs bg-bg border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+          >
+            <option value="off">Cut off (where the OS allows)</option>
+            <option value="on">Allowed</option>
+          </select>
         </div>
 
         <div className="flex justify-end pt-2">
@@ -114,6 +323,222 @@ export default function SettingsPage() {
           </button>
         </div>
       </div>
+
+      <div className="bg-bg-card border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium mb-1">Default Budget</h2>
+          <p className="text-text-muted text-xs">
+            Stops an operation when it crosses any of these limits, with a warning at 80%. Tokens and dollars count across the whole operation, including follow-ups; time is per run. A budget passed when starting an operation overrides these. Leave empty for no limit.
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-4 max-w-2xl">
+          {([
+            ["budgetMaxTokens", "Max Tokens", "e.g. 2000000"],
+            ["budgetMaxCostUsd", "Max Cost (USD)", "e.g. 25"],
+            ["budgetMaxMinutes", "Max Minutes", "e.g. 90"],
+          ] as const).map(([key, label, placeholder]) => (
+            <div key={key}>
+              <label htmlFor={key} className="block text-sm font-medium mb-2">
+                {label}
+              </label>
+              <input
+                id={key}
+                type="number"
+                min="0"
+                step="any"
+                value={budget[key]}
+                onChange={(e) => setBudget((prev) => ({ ...prev, [key]: e.target.value }))}
+                disabled={loading || savingBudget}
+                className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+                placeholder={placeholder}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={saveBudget}
+            disabled={loading || savingBudget}
+            className="bg-accent hover:bg-accent-hover disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-6 py-2 rounded transition-colors"
+          >
+            {savingBudget ? "Saving..." : "Save Budget"}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-bg-card border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium mb-1">Concurrency</h2>
+          <p className="text-text-muted text-xs">
+            How much runs at once across all operations. Operations over the limit wait in a queue, higher priority first; agents over the limit wait for a free slot. A manager waiting on its crew doesn&apos;t count against the agent limit. Leave empty for the built-in default.
+          </p>
+        </div>
+        <div className="grid grid-cols-2 gap-4 max-w-md">
+          {([
+            ["maxConcurrentConversations", "Max Running Operations", "3"],
+            ["maxConcurrentAgents", "Max Working Agents", "8"],
+          ] as const).map(([key, label, placeholder]) => (
+            <div key={key}>
+              <label htmlFor={key} className="block text-sm font-medium mb-2">
+                {label}
+              </label>
+              <input
+                id={key}
+                type="number"
+                min="1"
+                step="1"
+                value={concurrency[key]}
+                onChange={(e) => setConcurrency((prev) => ({ ...prev, [key]: e.target.value }))}
+                disabled={loading || savingConcurrency}
+                className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+                placeholder={placeholder}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={saveConcurrency}
+            disabled={loading || savingConcurrency}
+            className="bg-accent hover:bg-accent-hover disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-6 py-2 rounded transition-colors"
+          >
+            {savingConcurrency ? "Saving..." : "Save Limits"}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-bg-card border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium mb-1">Approval Gate</h2>
+          <p className="text-text-muted text-xs">
+            Pause risky tool calls until you approve them on the operation&apos;s page. You can approve once, always allow that kind of call for the rest of the operation, or deny it.
+          </p>
+        </div>
+        <div>
+          <label htmlFor="approvalGate" className="text-xs text-text-muted block mb-1">
+            Approval gate
+          </label>
+          <select
+            id="approvalGate"
+            value={approval.approvalGate}
+            onChange={(e) => setApproval((prev) => ({ ...prev, approvalGate: e.target.value }))}
+            disabled={loading || savingApproval}
+            className="w-full max-w-xs bg-bg border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+          >
+            <option value="off">Off - agents run tools without asking</option>
+            <option value="on">On - ask before risky tool calls</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="approvalBashPatterns" className="text-xs text-text-muted block mb-1">
+            Bash commands that need approval <span className="font-normal">(one pattern per line, * matches anything; empty for the defaults)</span>
+          </label>
+          <textarea
+            id="approvalBashPatterns"
+            value={approval.approvalBashPatterns}
+            onChange={(e) => setApproval((prev) => ({ ...prev, approvalBashPatterns: e.target.value }))}
+            disabled={loading || savingApproval}
+            rows={6}
+            className="w-full max-w-md bg-bg border border-border rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-accent disabled:opacity-50"
+            placeholder={DEFAULT_APPROVAL_PATTERNS}
+          />
+        </div>
+        <div className="space-y-2">
+          {([
+            ["approvalOutsideWrites", "Writes outside the working directory"],
+            ["approvalNetwork", "Network access (WebFetch, WebSearch, curl, wget)"],
+          ] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={approval[key] === "true"}
+                onChange={(e) => setApproval((prev) => ({ ...prev, [key]: e.target.checked ? "true" : "false" }))}
+                disabled={loading || savingApproval}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={saveApproval}
+            disabled={loading || savingApproval}
+            className="bg-accent hover:bg-accent-hover disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-6 py-2 rounded transition-colors"
+          >
+            {savingApproval ? "Saving..." : "Save Approval Gate"}
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-bg-card border border-border rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="text-sm font-medium mb-1">Local LLM Endpoint</h2>
+          <p className="text-text-muted text-xs">
+            OpenAI-compatible server for self-hosted models (Ollama, llama.cpp, vLLM). Models are discovered from the server&apos;s model list and become selectable on agents. Leave empty to disable.
+          </p>
+        </div>
+        <div>
+          <label htmlFor="localLlmBaseUrl" className="block text-sm font-medium mb-2">
+            Base URL
+          </label>
+          <input
+            id="localLlmBaseUrl"
+            type="url"
+            value={localBaseUrl}
+            onChange={(e) => setLocalBaseUrl(e.target.value)}
+            disabled={loading || savingLocal}
+            className="w-full max-w-md bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+            placeholder="http://localhost:11434/v1"
+          />
+        </div>
+        <div>
+          <label htmlFor="localLlmApiKey" className="block text-sm font-medium mb-2">
+            API Key <span className="text-text-muted text-xs font-normal">(optional)</span>
+          </label>
+          <input
+            id="localLlmApiKey"
+            type="password"
+            value={localApiKey}
+            onChange={(e) => setLocalApiKey(e.target.value)}
+            disabled={loading || savingLocal}
+            className="w-full max-w-md bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+            placeholder={hasLocalApiKey ? "Saved - leave empty to keep it" : "Only if the server was started with --api-key"}
+          />
+          {hasLocalApiKey && (
+            <button
+              type="button"
+              onClick={() => saveLocalEndpoint(true)}
+              disabled={loading || savingLocal}
+              className="block mt-1 text-xs text-text-muted hover:text-danger disabled:opacity-50"
+            >
+              Remove saved key
+            </button>
+          )}
+        </div>
+
+        {localModels && (
+          <div className="text-xs text-text-muted">
+            {localModels.length > 0 ? (
+              <>Discovered {localModels.length} model(s): <span className="font-mono text-text">{localModels.join(", ")}</span></>
+            ) : (
+              <span className="text-warning">Endpoint saved, but no models were discovered. Is the server running?</span>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end pt-2">
+          <button
+            onClick={() => saveLocalEndpoint()}
+            disabled={loading || savingLocal}
+            className="bg-accent hover:bg-accent-hover disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-6 py-2 rounded transition-colors"
+          >
+            {savingLocal ? "Saving..." : "Save Endpoint"}
+          </button>
+        </div>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,449 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import ConfirmDialog from "../../components/ConfirmDialog";
+
+interface ScheduleRun {
+  id: string;
+  status: string;
+  error: string | null;
+  createdAt: string;
+  conversationId: string | null;
+  conversation: { id?: string; title?: string; status: string } | null;
+}
+
+interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  task: string;
+  workingDirectory: string | null;
+  orgTemplateId: string | null;
+  dynamicMode: boolean;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  orgTemplate: { name: string } | null;
+  runs: ScheduleRun[];
+}
+
+interface OrgTemplate {
+  id: string;
+  name: string;
+}
+
+interface ScheduleForm {
+  name: string;
+  cron: string;
+  task: string;
+  workingDirectory: string;
+  // "static", "dynamic" or an org template id
+  org: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: ScheduleForm = { name: "", cron: "0 2 * * *", task: "", workingDirectory: "", org: "static", enabled: true };
+
+const CRON_EXAMPLES: [string, string][] = [
+  ["0 2 * * *", "nightly at 02:00"],
+  ["0 9 * * mon", "Mondays at 09:00"],
+  ["*/30 * * * *", "every 30 minutes"],
+  ["@weekly", "Sundays at midnight"],
+];
+
+function runStatusClass(status: string): string {
+  if (status === "started" || status === "completed" || status === "active") return "text-success";
+  if (status === "failed") return "text-danger";
+  return "text-gold";
+}
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [templates, setTemplates] = useState<OrgTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null when the form is closed, "new" or a schedule id while editing
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<ScheduleRun[]>([]);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const res = await fetch("/api/schedules");
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      setSchedules(await res.json());
+    } catch (err) {
+      console.error("loadSchedules:", err);
+      setError(err instanceof Error ? err.message : "Failed to load schedules");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadHistory = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/schedules/${id}/runs`);
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      setHistory(await res.json());
+    } catch (err) {
+      console.error("loadHistory:", err);
+      setError(err instanceof Error ? err.message : "Failed to load run history");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+    fetch("/api/org-templates")
+      .then((res) => (res.ok ? res.json() : []))
+      .then(setTemplates)
+      .catch(() => {});
+  }, [loadSchedules]);
+
+  const openForm = (schedule?: Schedule) => {
+    setError(null);
+    if (!schedule) {
+      setForm(EMPTY_FORM);
+      setEditing("new");
+      return;
+    }
+    setForm({
+      name: schedule.name,
+      cron: schedule.cron,
+      task: schedule.task,
+      workingDirectory: schedule.workingDirectory || "",
+      org: schedule.orgTemplateId || (schedule.dynamicMode ? "dynamic" : "static"),
+      enabled: schedule.enabled,
+    });
+    setEditing(schedule.id);
+  };
+
+  const saveSchedule = async () => {
+    if (!editing) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const isTemplate = form.org !== "static" && form.org !== "dynamic";
+      const res = await fetch(editing === "new" ? "/api/schedules" : `/api/schedules/${editing}`, {
+        method: editing === "new" ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          cron: form.cron,
+          task: form.task,
+          workingDirectory: form.workingDirectory.trim() || null,
+          dynamicMode: form.org === "dynamic",
+          orgTemplateId: isTemplate ? form.org : null,
+          enabled: form.enabled,
+        }),
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      setEditing(null);
+      await loadSchedules();
+    } catch (err) {
+      console.error("saveSchedule:", err);
+      setError(err instanceof Error ? err.message : "Failed to save schedule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (schedule: Schedule) => {
+    try {
+      const res = await fetch(`/api/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      await loadSchedules();
+    } catch (err) {
+      console.error("toggleEnabled:", err);
+      setError(err instanceof Error ? err.message : "Failed to update schedule");
+    }
+  };
+
+  const runNow = async (id: string) => {
+    try {
+      setError(null);
+      const res = await fetch(`/api/schedules/${id}/runs`, { method: "POST" });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      const run: ScheduleRun = await res.json();
+      if (run.status !== "started") setError(run.error || `Run ${run.status}`);
+      await loadSchedules();
+      if (historyFor === id) await loadHistory(id);
+    } catch (err) {
+      console.error("runNow:", err);
+      setError(err instanceof Error ? err.message : "Failed to start schedule");
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      const res = await fetch(`/api/schedules/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      if (historyFor === id) setHistoryFor(null);
+      await loadSchedules();
+    } catch (err) {
+      console.error("deleteSchedule:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete schedule");
+    } finally {
+      setConfirmDelete(null);
+    }
+  };
+
+  const toggleHistory = (id: string) => {
+    if (historyFor === id) {
+      setHistoryFor(null);
+      return;
+    }
+    setHistory([]);
+    setHistoryFor(id);
+    loadHistory(id);
+  };
+
+  const describeOrg = (s: Schedule) =>
+    s.orgTemplate ? `Template: ${s.orgTemplate.name}` : s.dynamicMode ? "Dynamic org" : "Static org";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <Link href="/settings" className="text-xs text-text-muted hover:text-text">← Settings</Link>
+          <h1 className="text-2xl font-bold">Scheduled Tasks</h1>
+          <p className="text-text-muted text-sm mt-1">
+            Tasks that start on their own on a cron schedule (server local time). A run is skipped while the previous one is still going.
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded transition-colors"
+        >
+          New Schedule
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger text-danger px-4 py-3 rounded flex items-center justify-between">
+          <span className="text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-danger hover:text-danger/80 text-lg">×</button>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-text-muted text-sm">Loading schedules...</p>
+      ) : schedules.length === 0 ? (
+        <div className="bg-bg-card border border-border rounded-lg p-6 text-text-muted text-sm">
+          No schedules yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {schedules.map((s) => {
+            const lastRun = s.runs[0];
+            return (
+              <div key={s.id} className="bg-bg-card border border-border rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{s.name}</span>
+                      <span className="font-mono text-xs bg-bg border border-border rounded px-1.5 py-0.5">{s.cron}</span>
+                      {!s.enabled && <span className="text-xs text-text-muted">disabled</span>}
+                    </div>
+                    <p className="text-sm text-text-muted mt-1 truncate" title={s.task}>{s.task}</p>
+                    <div className="text-xs text-text-muted mt-1 flex flex-wrap gap-x-3">
+                      <span>{describeOrg(s)}</span>
+                      {s.workingDirectory && <span className="font-mono">{s.workingDirectory}</span>}
+                      <span>Next: {s.nextRunAt ? new Date(s.nextRunAt).toLocaleString() : "—"}</span>
+                      {lastRun && (
+                        <span>
+                          Last: {new Date(lastRun.createdAt).toLocaleString()}{" "}
+                          <span className={runStatusClass(lastRun.conversation?.status || lastRun.status)}>
+                            {lastRun.conversation?.status || lastRun.status}
+                          </span>
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0 text-sm">
+                    <button onClick={() => runNow(s.id)} className="text-text-muted px-2 py-1 hover:text-text">Run now</button>
+                    <button onClick={() => toggleHistory(s.id)} className="text-text-muted px-2 py-1 hover:text-text">
+                      {historyFor === s.id ? "Hide runs" : "Runs"}
+                    </button>
+                    <button onClick={() => toggleEnabled(s)} className="text-text-muted px-2 py-1 hover:text-text">
+                      {s.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button onClick={() => openForm(s)} className="text-text-muted px-2 py-1 hover:text-text">Edit</button>
+                    <button
+                      onClick={() => setConfirmDelete(s.id)}
+                      className="text-danger hover:bg-danger/10 px-2 py-1 rounded transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {historyFor === s.id && (
+                  <div className="mt-3 border-t border-border pt-3">
+                    {history.length === 0 ? (
+                      <p className="text-xs text-text-muted">No runs yet.</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {history.map((run) => (
+                            <tr key={run.id} className="border-b border-border/50 last:border-0">
+                              <td className="py-1.5 pr-4 text-text-muted whitespace-nowrap">{new Date(run.createdAt).toLocaleString()}</td>
+                              <td className={`py-1.5 pr-4 ${runStatusClass(run.status)}`}>{run.status}</td>
+                              <td className="py-1.5">
+                                {run.conversation ? (
+                                  <Link href={`/conversation/${run.conversation.id}`} className="hover:text-accent">
+                                    {run.conversation.title}{" "}
+                                    <span className={runStatusClass(run.conversation.status)}>({run.conversation.status})</span>
+                                  </Link>
+                                ) : (
+                                  <span className="text-text-muted">{run.error || (run.conversationId ? "Operation deleted" : "")}</span>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-bg-card border border-border rounded-lg p-6 w-full max-w-lg">
+            <h2 className="text-lg font-bold mb-4">{editing === "new" ? "New Schedule" : "Edit Schedule"}</h2>
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="scheduleName" className="text-xs text-text-muted block mb-1">Name</label>
+                <input
+                  id="scheduleName"
+                  value={form.name}
+                  onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent"
+                  placeholder="Nightly test triage"
+                />
+              </div>
+              <div>
+                <label htmlFor="scheduleCron" className="text-xs text-text-muted block mb-1">
+                  Cron <span className="font-normal">(minute hour day month weekday)</span>
+                </label>
+                <input
+                  id="scheduleCron"
+                  value={form.cron}
+                  onChange={(e) => setForm((f) => ({ ...f, cron: e.target.value }))}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-accent"
+                />
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {CRON_EXAMPLES.map(([cron, label]) => (
+                    <button
+                      key={cron}
+                      type="button"
+                      onClick={() => setForm((f) => ({ ...f, cron }))}
+                      className="text-[10px] text-text-muted hover:text-accent"
+                    >
+                      <span className="font-mono">{cron}</span> {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="scheduleTask" className="text-xs text-text-muted block mb-1">Task</label>
+                <textarea
+                  id="scheduleTask"
+                  value={form.task}
+                  onChange={(e) => setForm((f) => ({ ...f, task: e.target.value }))}
+                  className="w-full h-28 bg-bg border border-border rounded p-3 text-sm focus:outline-none focus:border-accent resize-none"
+                  placeholder="Run the test suite and triage any failures"
+                />
+              </div>
+              <div>
+                <label htmlFor="scheduleDir" className="text-xs text-text-muted block mb-1">Working Directory</label>
+                <input
+                  id="scheduleDir"
+                  value={form.workingDirectory}
+                  onChange={(e) => setForm((f) => ({ ...f, workingDirectory: e.target.value }))}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-accent"
+                  placeholder="/path/to/project (optional)"
+                />
+              </div>
+              <div>
+                <label htmlFor="scheduleOrg" className="text-xs text-text-muted block mb-1">Organization</label>
+                <select
+                  id="scheduleOrg"
+                  value={form.org}
+                  onChange={(e) => setForm((f) => ({ ...f, org: e.target.value }))}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent"
+                >
+                  <option value="static">Static org (as configured)</option>
+                  <option value="dynamic">Dynamic org (built for the task)</option>
+                  {templates.length > 0 && (
+                    <optgroup label="Org templates">
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </optgroup>
+                  )}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm((f) => ({ ...f, enabled: e.target.checked }))}
+                />
+                Enabled
+              </label>
+            </div>
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setEditing(null)}
+                className="text-text-muted text-sm px-3 py-1.5 hover:text-text"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveSchedule}
+                disabled={saving || !form.name.trim() || !form.cron.trim() || !form.task.trim()}
+                className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!confirmDelete}
+        title="Delete Schedule"
+        message="The schedule and its run history are removed. Operations it started are kept."
+        onConfirm={() => confirmDelete && deleteSchedule(confirmDelete)}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import ConfirmDialog from "../../components/ConfirmDialog";
+
+interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  hasSecret: boolean;
+  enabled: boolean;
+  deliveries: { status: string; createdAt: string }[];
+}
+
+interface Delivery {
+  id: string;
+  event: string;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  conversationId: string | null;
+  createdAt: string;
+}
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  events: string[];
+  // Empty keeps the current secret when editing
+  secret: string;
+  removeSecret: boolean;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: WebhookForm = {
+  name: "",
+  url: "",
+  events: ["task_complete", "task_error", "escalation", "budget_exceeded"],
+  secret: "",
+  removeSecret: false,
+  enabled: true,
+};
+
+function deliveryStatusClass(status: string): string {
+  if (status === "delivered") return "text-success";
+  if (status === "failed") return "text-danger";
+  return "text-gold";
+}
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [knownEvents, setKnownEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null when the form is closed, "new" or a webhook id while editing
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [deliveriesFor, setDeliveriesFor] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const loadWebhooks = useCallback(async () => {
+    try {
+      const res = await fetch("/api/webhooks");
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      const data = await res.json();
+      setWebhooks(data.webhooks);
+      setKnownEvents(data.events);
+    } catch (err) {
+      console.error("loadWebhooks:", err);
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadDeliveries = useCallback(async (id: string) => {
+    try {
+      const res = await fetch(`/api/webhooks/${id}/deliveries`);
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      setDeliveries(await res.json());
+    } catch (err) {
+      console.error("loadDeliveries:", err);
+      setError(err instanceof Error ? err.message : "Failed to load deliveries");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const openForm = (webhook?: Webhook) => {
+    setError(null);
+    setForm(webhook
+      ? { name: webhook.name, url: webhook.url, events: webhook.events, secret: "", removeSecret: false, enabled: webhook.enabled }
+      : EMPTY_FORM);
+    setEditing(webhook ? webhook.id : "new");
+  };
+
+  const toggleEvent = (event: string) => {
+    setForm((f) => ({
+      ...f,
+      events: f.events.includes(event) ? f.events.filter((e) => e !== event) : [...f.events, event],
+    }));
+  };
+
+  const saveWebhook = async () => {
+    if (!editing) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const body: Record<string, unknown> = { name: form.name, url: form.url.trim(), events: form.events, enabled: form.enabled };
+      if (form.removeSecret) body.secret = "";
+      else if (form.secret) body.secret = form.secret;
+
+      const res = await fetch(editing === "new" ? "/api/webhooks" : `/api/webhooks/${editing}`, {
+        method: editing === "new" ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      setEditing(null);
+      await loadWebhooks();
+    } catch (err) {
+      console.error("saveWebhook:", err);
+      setError(err instanceof Error ? err.message : "Failed to save webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEnabled = async (webhook: Webhook) => {
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled: !webhook.enabled }),
+      });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      await loadWebhooks();
+    } catch (err) {
+      console.error("toggleEnabled:", err);
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  };
+
+  const sendTest = async (id: string) => {
+    try {
+      setTesting(id);
+      setError(null);
+      const res = await fetch(`/api/webhooks/${id}/deliveries`, { method: "POST" });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      const delivery: Delivery = await res.json();
+      if (delivery.status !== "delivered") setError(`Test delivery failed: ${delivery.error || delivery.status}`);
+      await loadWebhooks();
+      if (deliveriesFor === id) await loadDeliveries(id);
+    } catch (err) {
+      console.error("sendTest:", err);
+      setError(err instanceof Error ? err.message : "Failed to send test delivery");
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const deleteWebhook = async (id: string) => {
+    try {
+      const res = await fetch(`/api/webhooks/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      if (deliveriesFor === id) setDeliveriesFor(null);
+      await loadWebhooks();
+    } catch (err) {
+      console.error("deleteWebhook:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    } finally {
+      setConfirmDelete(null);
+    }
+  };
+
+  const toggleDeliveries = (id: string) => {
+    if (deliveriesFor === id) {
+      setDeliveriesFor(null);
+      return;
+    }
+    setDeliveries([]);
+    setDeliveriesFor(id);
+    loadDeliveries(id);
+  };
+
+  const allEvents = form.events.includes("*");
+  const editingWebhook = webhooks.find((w) => w.id === editing);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <Link href="/settings" className="text-xs text-text-muted hover:text-text">← Settings</Link>
+          <h1 className="text-2xl font-bold">Webhooks</h1>
+          <p className="text-text-muted text-sm mt-1">
+            POST operation events to your own tooling as JSON. Failed deliveries are retried with backoff. With a secret, each request is signed in the X-AgentMafia-Signature header (HMAC-SHA256 of &quot;timestamp.body&quot;).
+          </p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded transition-colors shrink-0"
+        >
+          New Webhook
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-danger/10 border border-danger text-danger px-4 py-3 rounded flex items-center justify-between">
+          <span className="text-sm">{error}</span>
+          <button onClick={() => setError(null)} className="text-danger hover:text-danger/80 text-lg">×</button>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-text-muted text-sm">Loading webhooks...</p>
+      ) : webhooks.length === 0 ? (
+        <div className="bg-bg-card border border-border rounded-lg p-6 text-text-muted text-sm">
+          No webhooks yet.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {webhooks.map((w) => {
+            const last = w.deliveries[0];
+            return (
+              <div key={w.id} className="bg-bg-card border border-border rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{w.name}</span>
+                      {w.hasSecret && <span className="text-[10px] text-text-muted border border-border rounded px-1">signed</span>}
+                      {!w.enabled && <span className="text-xs text-text-muted">disabled</span>}
+                    </div>
+                    <p className="text-sm text-text-muted font-mono mt-1 truncate">{w.url}</p>
+                    <div className="text-xs text-text-muted mt-1 flex flex-wrap gap-x-3">
+                      <span>{w.events.includes("*") ? "All events" : w.events.join(", ")}</span>
+                      {last && (
+                        <span>
+                          Last: {new Date(last.createdAt).toLocaleString()}{" "}
+                          <span className={deliveryStatusClass(last.status)}>{last.status}</span>
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0 text-sm">
+                    <button
+                      onClick={() => sendTest(w.id)}
+                      disabled={testing === w.id}
+                      className="text-text-muted px-2 py-1 hover:text-text disabled:opacity-50"
+                    >
+                      {testing === w.id ? "Sending..." : "Test"}
+                    </button>
+                    <button onClick={() => toggleDeliveries(w.id)} className="text-text-muted px-2 py-1 hover:text-text">
+                      {deliveriesFor === w.id ? "Hide log" : "Log"}
+                    </button>
+                    <button onClick={() => toggleEnabled(w)} className="text-text-muted px-2 py-1 hover:text-text">
+                      {w.enabled ? "Disable" : "Enable"}
+                    </button>
+                    <button onClick={() => openForm(w)} className="text-text-muted px-2 py-1 hover:text-text">Edit</button>
+                    <button
+                      onClick={() => setConfirmDelete(w.id)}
+                      className="text-danger hover:bg-danger/10 px-2 py-1 rounded transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {deliveriesFor === w.id && (
+                  <div className="mt-3 border-t border-border pt-3">
+                    {deliveries.length === 0 ? (
+                      <p className="text-xs text-text-muted">No deliveries yet.</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {deliveries.map((d) => (
+                            <tr key={d.id} className="border-b border-border/50 last:border-0">
+                              <td className="py-1.5 pr-4 text-text-muted whitespace-nowrap">{new Date(d.createdAt).toLocaleString()}</td>
+                              <td className="py-1.5 pr-4 font-mono">{d.event}</td>
+                              <td className={`py-1.5 pr-4 ${deliveryStatusClass(d.status)}`}>{d.status}</td>
+                              <td className="py-1.5 pr-4 text-text-muted whitespace-nowrap">
+                                {d.responseStatus ? `HTTP ${d.responseStatus}` : "—"} · {d.attempts} attempt{d.attempts === 1 ? "" : "s"}
+                              </td>
+                              <td className="py-1.5">
+                                {d.conversationId ? (
+                                  <Link href={`/conversation/${d.conversationId}`} className="text-text-muted hover:text-accent">operation</Link>
+                                ) : null}
+                                {d.error && <span className="text-danger ml-2">{d.error}</span>}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create / Edit Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-bg-card border border-border rounded-lg p-6 w-full max-w-lg">
+            <h2 className="text-lg font-bold mb-4">{editing === "new" ? "New Webhook" : "Edit Webhook"}</h2>
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="webhookName" className="text-xs text-text-muted block mb-1">Name</label>
+                <input
+                  id="webhookName"
+                  value={form.name}
+                  onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent"
+                  placeholder="CI notifier"
+                />
+              </div>
+              <div>
+                <label htmlFor="webhookUrl" className="text-xs text-text-muted block mb-1">URL</label>
+                <input
+                  id="webhookUrl"
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => setForm((f) => ({ ...f, url: e.target.value }))}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-accent"
+                  placeholder="https://example.com/hooks/agentmafia"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-text-muted block mb-1">Events</span>
+                <label className="flex items-center gap-2 text-sm mb-1">
+                  <input
+                    type="checkbox"
+                    checked={allEvents}
+                    onChange={(e) => setForm((f) => ({ ...f, events: e.target.checked ? ["*"] : [] }))}
+                  />
+                  All events
+                </label>
+                <div className="grid grid-cols-2 gap-1">
+                  {knownEvents.map((event) => (
+                    <label key={event} className={`flex items-center gap-2 text-xs font-mono ${allEvents ? "opacity-50" : ""}`}>
+                      <input
+                        type="checkbox"
+                        checked={allEvents || form.events.includes(event)}
+                        disabled={allEvents}
+                        onChange={() => toggleEvent(event)}
+                      />
+                      {event}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="webhookSecret" className="text-xs text-text-muted block mb-1">
+                  Signing Secret <span className="font-normal">(optional)</span>
+                </label>
+                <input
+                  id="webhookSecret"
+                  type="password"
+                  value={form.secret}
+                  onChange={(e) => setForm((f) => ({ ...f, secret: e.target.value, removeSecret: false }))}
+                  disabled={form.removeSecret}
+                  className="w-full bg-bg border border-border rounded px-3 py-2 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+                  placeholder={editingWebhook?.hasSecret ? "Leave empty to keep the current secret" : ""}
+                />
+                {editingWebhook?.hasSecret && (
+                  <label className="flex items-center gap-2 text-xs text-text-muted mt-1">
+                    <input
+                      type="checkbox"
+                      checked={form.removeSecret}
+                      onChange={(e) => setForm((f) => ({ ...f, removeSecret: e.target.checked, secret: "" }))}
+                    />
+                    Remove secret (stop signing)
+                  </label>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm((f) => ({ ...f, enabled: e.target.checked }))}
+                />
+                Enabled
+              </label>
+            </div>
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setEditing(null)}
+                className="text-text-muted text-sm px-3 py-1.5 hover:text-text"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveWebhook}
+                disabled={saving || !form.name.trim() || !form.url.trim() || form.events.length === 0}
+                className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!confirmDelete}
+        title="Delete Webhook"
+        message="The webhook and its delivery log are removed."
+        onConfirm={() => confirmDelete && deleteWebhook(confirmDelete)}
+        onCancel={() => setConfirmDelete(null)}
+      />
+    </div>
+  );
+}
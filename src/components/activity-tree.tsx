@@ -23,6 +23,9 @@ export interface TreeActivityItem {
   agentName?: string;
   tool?: string;
   targetAgents?: TargetAgent[];
+  // Write conflicts: the file and the other agents that changed it
+  filePath?: string;
+  conflictAgents?: Array<{ agentId: string; agentName: string }>;
   timestamp: number;
 }
 
@@ -70,6 +73,7 @@ const ACTION_COLORS: Record<string, string> = {
   WebSearch: "#60a5fa",
   TodoWrite: "#34d399",
   response: "#22c55e",
+  conflict: "#ef4444",
   thinking: "#94a3b8",
   delegating: "#a78bfa",
   // Tester-specific actions
@@ -97,6 +101,7 @@ const ACTION_SHORT: Record<string, string> = {
 const ARROW_LIFETIME = 4000;
 const RESPONSE_ARROW_LIFETIME = 6000;
 const NOTIF_LIFETIME = 3000;
+const CONFLICT_LIFETIME = 8000;
 const NOTIF_FLOAT_DISTANCE = 50; // SVG units to float upward
 
 const NON_COMM_TOOLS = new Set(["Read", "Write", "Edit", "Bash", "Glob", "Grep", "NotebookEdit", "WebFetch", "WebSearch", "TodoWrite", "execute_code", "run_build", "open_browser", "run_tests"]);
@@ -124,9 +129,11 @@ const LEVEL_HEIGHT = 110;
 interface Props {
   activity: TreeActivityItem[];
   conversationId?: string;
+  // Clicking a node offers to retry that agent's step
+  onSelectAgent?: (agent: { id: string; name: string }) => void;
 }
 
-export function ActivityTree({ activity, conversationId }: Props) {
+export function ActivityTree({ activity, conversationId, onSelectAgent }: Props) {
   const [agents, setAgents] = useState<Agent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
@@ -321,6 +328,33 @@ export function ActivityTree({ activity, conversationId }: Props) {
         }
       }
 
+      // Write conflicts: the file over the writer, arrows to the agents it clashed with
+      if (item.type === "conflict" && sourceId) {
+        const fileName = item.filePath?.split(/[\\/]/).pop() || "file";
+        newNotifs.push({
+          id: crypto.randomUUID(),
+          agentId: sourceId,
+          label: `⚠ conflict: ${fileName}`,
+          color: ACTION_COLORS.conflict,
+          createdAt: Date.now(),
+          lifetime: CONFLICT_LIFETIME,
+          offsetX: 0,
+        });
+        for (const other of item.conflictAgents ?? []) {
+          const otherId = other.agentId || nameToId.get(other.agentName);
+          if (!otherId) continue;
+          newArrows.push({
+            id: crypto.randomUUID(),
+            fromId: sourceId,
+            toId: otherId,
+            color: ACTION_COLORS.conflict,
+            label: `⚠ ${fileName}`,
+            createdAt: Date.now(),
+            lifetime: CONFLICT_LIFETIME,
+          });
+        }
+      }
+
       // Response arrows: child → parent (upward) when agent finishes or sends a message
       if ((item.type === "done" || item.type === "message") && sourceId) {
         if (item.type === "done") {
@@ -484,7 +518,12 @@ export function ActivityTree({ activity, conversationId }: Props) {
           const rc = ROLE_COLORS[node.agent.role] || "#6a6a7a";
 
           return (
-            <g key={node.agent.id}>
+            <g
+              key={node.agent.id}
+              onClick={onSelectAgent ? () => onSelectAgent({ id: node.agent.id, name: node.agent.name }) : undefined}
+              style={onSelectAgent ? { cursor: "pointer" } : undefined}
+            >
+              {onSelectAgent && <title>Retry {node.agent.name}&apos;s step</title>}
               {/* Pulse ring */}
               {isActive && (
                 <circle cx={node.x} cy={node.y} r={NODE_RADIUS + 6} fill="none" stroke={rc} strokeWidth="1.5"
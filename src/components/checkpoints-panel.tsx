@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import ConfirmDialog from "../app/components/ConfirmDialog";
+
+interface Checkpoint {
+  id: string;
+  name: string;
+  description: string;
+  pendingTasks: string[];
+  hasFiles: boolean;
+  createdAt: string;
+}
+
+interface Props {
+  conversationId: string;
+  // Restoring is only allowed while the conversation isn't running
+  running: boolean;
+  // Bump to refetch (e.g. on a checkpoint_created SSE event)
+  refreshKey?: number | string;
+}
+
+export function CheckpointsPanel({ conversationId, running, refreshKey }: Props) {
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [confirming, setConfirming] = useState<Checkpoint | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/progress/${conversationId}/checkpoints`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => { if (data) setCheckpoints(data.checkpoints); })
+      .catch(() => {});
+  }, [conversationId, refreshKey]);
+
+  const restore = async (checkpoint: Checkpoint) => {
+    setConfirming(null);
+    setRestoring(checkpoint.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/progress/${conversationId}/checkpoints/${checkpoint.id}/restore`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to restore checkpoint");
+        return;
+      }
+      setNotice(
+        data.files
+          ? `Restored "${checkpoint.name}": ${data.files.restored} files written, ${data.files.removed} removed.`
+          : `Restored "${checkpoint.name}" (progress and agent context only; no files were captured).`
+      );
+    } catch {
+      setError("Failed to restore checkpoint");
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  if (checkpoints.length === 0) return null;
+
+  return (
+    <div className="bg-bg-card border border-border rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-border flex items-center gap-3">
+        <span className="text-xs text-text-muted font-medium">Checkpoints</span>
+        <span className="text-[10px] text-text-muted ml-auto">
+          {checkpoints.length} checkpoint{checkpoints.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      {error && <div className="mx-4 mt-3 px-3 py-2 rounded text-xs bg-danger/10 border border-danger text-danger">{error}</div>}
+      {notice && <div className="mx-4 mt-3 px-3 py-2 rounded text-xs bg-success/10 border border-success text-success">{notice}</div>}
+
+      <table className="w-full text-xs">
+        <tbody>
+          {checkpoints.map((c) => (
+            <tr key={c.id} className="border-b border-border/50 last:border-0 hover:bg-bg-hover">
+              <td className="py-1.5 px-3 text-text font-medium whitespace-nowrap">{c.name}</td>
+              <td className="py-1.5 px-3 text-text-muted">{c.description}</td>
+              <td className="py-1.5 px-3 text-right text-text-muted whitespace-nowrap">
+                {c.hasFiles ? "files + progress" : "progress only"}
+              </td>
+              <td className="py-1.5 px-3 text-right text-text-muted whitespace-nowrap">
+                {new Date(c.createdAt).toLocaleString()}
+              </td>
+              <td className="py-1.5 px-3 text-right">
+                <button
+                  onClick={() => setConfirming(c)}
+                  disabled={running || restoring !== null}
+                  title={running ? "Stop the conversation to restore a checkpoint" : undefined}
+                  className="text-accent hover:text-accent-hover disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  {restoring === c.id ? "Restoring..." : "Restore"}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <ConfirmDialog
+        open={confirming !== null}
+        title="Restore checkpoint"
+        message={`Roll back to "${confirming?.name}"? ${confirming?.hasFiles ? "Files in the working directory will be overwritten and files created since will be deleted. " : ""}Progress phases and agent context go back to how they were at this checkpoint.`}
+        confirmLabel="Restore"
+        onConfirm={() => confirming && restore(confirming)}
+        onCancel={() => setConfirming(null)}
+      />
+    </div>
+  );
+}
@@ -19,6 +19,8 @@ export interface CodeExecutionResult {
   errors?: CompilationError[];
   browserUrl?: string;
   browserStatus?: string;
+  // Set for run_build results, which stream in while the build runs
+  buildId?: string;
   timestamp: number;
 }
 
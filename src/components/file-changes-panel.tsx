@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface FileChange {
+  id: string;
+  filePath: string;
+  changeType: string;
+  description: string;
+  agentName: string | null;
+  phase: string | null;
+  detected: boolean;
+  additions: number | null;
+  deletions: number | null;
+  hasDiff: boolean;
+  createdAt: string;
+}
+
+interface Props {
+  conversationId: string;
+  // Bump to refetch (e.g. on a file_changes SSE event)
+  refreshKey?: number | string;
+}
+
+const CHANGE_STYLES: Record<string, string> = {
+  created: "text-success",
+  modified: "text-accent-gold",
+  deleted: "text-danger",
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith("+++") || line.startsWith("---")) return "text-text-muted";
+  if (line.startsWith("@@")) return "text-accent";
+  if (line.startsWith("+")) return "text-success bg-success/10";
+  if (line.startsWith("-")) return "text-danger bg-danger/10";
+  return "text-text-muted";
+}
+
+export function FileChangesPanel({ conversationId, refreshKey }: Props) {
+  const [changes, setChanges] = useState<FileChange[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [diffs, setDiffs] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    fetch(`/api/progress/${conversationId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => { if (data?.fileChanges) setChanges(data.fileChanges); })
+      .catch(() => {});
+  }, [conversationId, refreshKey]);
+
+  const toggle = (change: FileChange) => {
+    if (openId === change.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(change.id);
+    if (change.hasDiff && !(change.id in diffs)) {
+      fetch(`/api/progress/${conversationId}/file-changes/${change.id}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => setDiffs((prev) => ({ ...prev, [change.id]: data?.diff ?? null })))
+        .catch(() => setDiffs((prev) => ({ ...prev, [change.id]: null })));
+    }
+  };
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="bg-bg-card border border-border rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-border flex items-center gap-3">
+        <span className="text-xs text-text-muted font-medium">File Changes</span>
+        <span className="text-[10px] text-text-muted ml-auto">
+          {changes.length} change{changes.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <div className="max-h-[32rem] overflow-y-auto">
+        {changes.map((c) => (
+          <div key={c.id} className="border-b border-border/50 last:border-0">
+            <button
+              onClick={() => toggle(c)}
+              className="w-full flex items-center gap-3 px-3 py-1.5 text-xs text-left hover:bg-bg-hover"
+            >
+              <span className={`w-16 shrink-0 ${CHANGE_STYLES[c.changeType] ?? "text-text-muted"}`}>{c.changeType}</span>
+              <span className="font-mono text-text truncate">{c.filePath}</span>
+              {c.additions !== null && c.deletions !== null ? (
+                <span className="shrink-0 font-mono">
+                  <span className="text-success">+{c.additions}</span>{" "}
+                  <span className="text-danger">-{c.deletions}</span>
+                </span>
+              ) : (
+                <span className="shrink-0 text-text-muted">{c.description}</span>
+              )}
+              <span className="ml-auto shrink-0 text-text-muted whitespace-nowrap">
+                {c.agentName ?? "unknown"}
+                {c.phase && <span className="text-[10px]"> · {c.phase}</span>}
+                {!c.detected && <span className="text-[10px]"> · reported</span>}
+              </span>
+              <span className="shrink-0 text-text-muted whitespace-nowrap">
+                {new Date(c.createdAt).toLocaleTimeString()}
+              </span>
+            </button>
+
+            {openId === c.id && (
+              <div className="bg-bg px-3 py-2 border-t border-border/50">
+                {!c.hasDiff ? (
+                  <p className="text-xs text-text-muted">{c.detected ? "No diff available (binary or large file)." : c.description}</p>
+                ) : !(c.id in diffs) ? (
+                  <p className="text-xs text-text-muted">Loading diff...</p>
+                ) : diffs[c.id] === null ? (
+                  <p className="text-xs text-danger">Failed to load diff.</p>
+                ) : (
+                  <pre className="text-[11px] font-mono overflow-x-auto max-h-96 overflow-y-auto">
+                    {diffs[c.id]!.split("\n").map((line, i) => (
+                      <div key={i} className={`px-1 whitespace-pre ${diffLineClass(line)}`}>{line || " "}</div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface GitCommit {
+  id: string;
+  agentName: string;
+  sha: string;
+  message: string;
+  filesChanged: number;
+  createdAt: string;
+}
+
+interface GitInfo {
+  branch: string | null;
+  baseBranch: string | null;
+  commits: GitCommit[];
+}
+
+interface Props {
+  conversationId: string;
+  // Bump to refetch (e.g. on a git_commit SSE event)
+  refreshKey?: number | string;
+}
+
+export function GitPanel({ conversationId, refreshKey }: Props) {
+  const [git, setGit] = useState<GitInfo | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/conversations/${conversationId}/git`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => { if (data) setGit(data); })
+      .catch(() => {});
+  }, [conversationId, refreshKey]);
+
+  if (!git?.branch) return null;
+
+  return (
+    <div className="bg-bg-card border border-border rounded-lg overflow-hidden">
+      <div className="px-4 py-3 border-b border-border flex items-center gap-3">
+        <span className="text-xs text-text-muted font-medium">Git</span>
+        <span className="text-xs font-mono text-accent">{git.branch}</span>
+        {git.baseBranch && <span className="text-[10px] text-text-muted">from {git.baseBranch}</span>}
+        <span className="text-[10px] text-text-muted ml-auto">
+          {git.commits.length} commit{git.commits.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      {git.commits.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-text-muted">No changes committed yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <tbody>
+            {git.commits.map((c) => (
+              <tr key={c.id} className="border-b border-border/50 last:border-0 hover:bg-bg-hover">
+                <td className="py-1.5 px-3 font-mono text-text-muted w-20" title={c.sha}>{c.sha.slice(0, 7)}</td>
+                <td className="py-1.5 px-3 text-text">{c.message}</td>
+                <td className="py-1.5 px-3 text-right text-text-muted whitespace-nowrap">
+                  {c.filesChanged} file{c.filesChanged === 1 ? "" : "s"}
+                </td>
+                <td className="py-1.5 px-3 text-right text-text-muted whitespace-nowrap">
+                  {new Date(c.createdAt).toLocaleTimeString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
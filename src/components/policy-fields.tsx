@@ -0,0 +1,105 @@
+"use client";
+
+export type PolicyField =
+  | "maxDepth"
+  | "maxInvocationsPerAgent"
+  | "maxTurns"
+  | "agentTimeoutMinutes"
+  | "totalTimeoutMinutes";
+
+export type PolicyFormValues = Record<PolicyField, string>;
+
+export const POLICY_FIELDS: Array<{ key: PolicyField; label: string; hint: string; integer: boolean }> = [
+  { key: "maxDepth", label: "Max Delegation Depth", hint: "How many levels deep work can be handed down", integer: true },
+  { key: "maxInvocationsPerAgent", label: "Max Invocations per Agent", hint: "Times one agent can be called in a task chain", integer: true },
+  { key: "maxTurns", label: "Max Agent Turns", hint: "API round-trips an agent can take before stopping", integer: true },
+  { key: "agentTimeoutMinutes", label: "Agent Timeout (min)", hint: "Wall-clock limit for a single agent", integer: false },
+  { key: "totalTimeoutMinutes", label: "Total Timeout (min)", hint: "Wall-clock limit for the whole operation", integer: false },
+];
+
+// Built-in defaults, shown when nothing else is set
+export const DEFAULT_POLICY_PLACEHOLDERS: PolicyFormValues = {
+  maxDepth: "15",
+  maxInvocationsPerAgent: "5",
+  maxTurns: "200",
+  agentTimeoutMinutes: "none",
+  totalTimeoutMinutes: "120",
+};
+
+export function emptyPolicyForm(): PolicyFormValues {
+  return { maxDepth: "", maxInvocationsPerAgent: "", maxTurns: "", agentTimeoutMinutes: "", totalTimeoutMinutes: "" };
+}
+
+/**
+ * Form values from a stored policy (a JSON string or parsed object)
+ */
+export function policyToForm(policy: string | Partial<Record<PolicyField, number>> | null | undefined): PolicyFormValues {
+  const form = emptyPolicyForm();
+  if (!policy) return form;
+  let parsed: Partial<Record<PolicyField, number>>;
+  try {
+    parsed = typeof policy === "string" ? JSON.parse(policy) : policy;
+  } catch {
+    return form;
+  }
+  for (const { key } of POLICY_FIELDS) {
+    if (typeof parsed[key] === "number") form[key] = String(parsed[key]);
+  }
+  return form;
+}
+
+/**
+ * Request body value for a policy form. Empty fields inherit; null when all are empty.
+ */
+export function formToPolicy(form: PolicyFormValues): Partial<Record<PolicyField, number>> | null {
+  const policy: Partial<Record<PolicyField, number>> = {};
+  for (const { key } of POLICY_FIELDS) {
+    const value = form[key].trim();
+    if (value !== "") policy[key] = Number(value);
+  }
+  return Object.keys(policy).length > 0 ? policy : null;
+}
+
+/**
+ * One-line summary of the fields a policy sets, e.g. "Max Agent Turns: 50 · Total Timeout (min): 30"
+ */
+export function describePolicy(policy: string | Partial<Record<PolicyField, number>> | null | undefined): string {
+  const form = policyToForm(policy);
+  return POLICY_FIELDS.filter(({ key }) => form[key])
+    .map(({ key, label }) => `${label}: ${form[key]}`)
+    .join(" · ");
+}
+
+interface Props {
+  values: PolicyFormValues;
+  onChange: (values: PolicyFormValues) => void;
+  // Inherited values shown when a field is left empty
+  placeholders?: Partial<PolicyFormValues>;
+  disabled?: boolean;
+  compact?: boolean;
+}
+
+export function PolicyFields({ values, onChange, placeholders, disabled, compact }: Props) {
+  return (
+    <div className={`grid gap-3 ${compact ? "grid-cols-2" : "grid-cols-3 max-w-2xl"}`}>
+      {POLICY_FIELDS.map(({ key, label, hint, integer }) => (
+        <div key={key}>
+          <label htmlFor={`policy-${key}`} className="text-xs text-text-muted block mb-1" title={hint}>
+            {label}
+          </label>
+          <input
+            id={`policy-${key}`}
+            type="number"
+            min="1"
+            step={integer ? "1" : "any"}
+            value={values[key]}
+            onChange={(e) => onChange({ ...values, [key]: e.target.value })}
+            disabled={disabled}
+            placeholder={placeholders?.[key] ?? DEFAULT_POLICY_PLACEHOLDERS[key]}
+            className="w-full bg-bg border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
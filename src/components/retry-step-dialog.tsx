@@ -0,0 +1,148 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface ProviderInfo {
+  id: string;
+  name: string;
+  isConfigured: boolean;
+  models: string[];
+}
+
+interface Props {
+  conversationId: string;
+  agent: { id: string; name: string } | null;
+  onClose: () => void;
+  // Called once the retry has been started
+  onRetried?: () => void;
+}
+
+export function RetryStepDialog({ conversationId, agent, onClose, onRetried }: Props) {
+  const [task, setTask] = useState("");
+  const [originalTask, setOriginalTask] = useState<string | null>(null);
+  // "providerId:model", or empty for the agent's configured model
+  const [modelChoice, setModelChoice] = useState("");
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!agent) return;
+    setTask("");
+    setOriginalTask(null);
+    setModelChoice("");
+    setError(null);
+    setLoading(true);
+
+    fetch(`/api/conversations/${conversationId}/retry?agentId=${agent.id}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          const errData = await res.json().catch(() => ({}));
+          throw new Error(errData.error || `Request failed (${res.status})`);
+        }
+        return res.json();
+      })
+      .then((step: { task: string }) => {
+        setTask(step.task);
+        setOriginalTask(step.task);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load step"))
+      .finally(() => setLoading(false));
+
+    fetch("/api/providers")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => { if (data) setProviders((data.providers || []).filter((p: ProviderInfo) => p.isConfigured)); })
+      .catch(() => {});
+  }, [conversationId, agent]);
+
+  if (!agent) return null;
+
+  const submit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const [providerId, ...modelParts] = modelChoice ? modelChoice.split(":") : [];
+      const res = await fetch(`/api/conversations/${conversationId}/retry`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          agentId: agent.id,
+          task: task !== originalTask ? task : undefined,
+          model: modelParts.length > 0 ? modelParts.join(":") : undefined,
+          providerId,
+        }),
+      });
+      if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || `Request failed (${res.status})`);
+      }
+      onRetried?.();
+      onClose();
+    } catch (err) {
+      console.error("RetryStep:", err);
+      setError(err instanceof Error ? err.message : "Failed to retry step");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div className="bg-bg-card border border-border rounded-lg p-6 w-full max-w-lg">
+        <h2 className="text-lg font-bold mb-1">Retry {agent.name}</h2>
+        <p className="text-text-muted text-xs mb-4">
+          Runs this agent again with its last task. If the job is still running, the new result is sent to whoever delegated the task.
+        </p>
+        {error && (
+          <div className="text-red-500 text-sm mb-3">{error}</div>
+        )}
+        <label htmlFor="retryTask" className="text-xs text-text-muted block mb-1">
+          Task
+        </label>
+        <textarea
+          id="retryTask"
+          value={task}
+          onChange={(e) => setTask(e.target.value)}
+          disabled={loading || submitting}
+          className="w-full h-40 bg-bg border border-border rounded p-3 text-sm focus:outline-none focus:border-accent resize-none disabled:opacity-50"
+          placeholder={loading ? "Loading last task..." : ""}
+        />
+        <label htmlFor="retryModel" className="text-xs text-text-muted block mt-3 mb-1">
+          Model
+        </label>
+        <select
+          id="retryModel"
+          value={modelChoice}
+          onChange={(e) => setModelChoice(e.target.value)}
+          disabled={submitting}
+          className="w-full bg-bg border border-border rounded px-3 py-1.5 text-sm focus:outline-none focus:border-accent disabled:opacity-50"
+        >
+          <option value="">Agent&apos;s configured model</option>
+          {providers.map((p) => (
+            <optgroup key={p.id} label={p.name}>
+              {p.models.map((m) => (
+                <option key={m} value={`${p.id}:${m}`}>{m}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onClose}
+            className="text-text-muted text-sm px-3 py-1.5 hover:text-text transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={submit}
+            disabled={loading || submitting || !task.trim()}
+            className="bg-accent hover:bg-accent-hover text-white text-sm px-4 py-1.5 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? "Retrying..." : "Retry Step"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
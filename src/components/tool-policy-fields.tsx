@@ -0,0 +1,84 @@
+"use client";
+
+export type ToolPolicyField = "allowedTools" | "disallowedTools" | "bashCommands" | "writablePaths";
+
+export type ToolPolicyFormValues = Record<ToolPolicyField, string>;
+
+type ToolPolicyValue = Partial<Record<ToolPolicyField, string[]>>;
+
+export const TOOL_POLICY_FIELDS: Array<{ key: ToolPolicyField; label: string; hint: string; example: string }> = [
+  { key: "allowedTools", label: "Allowed Tools", hint: "Native tools the agent gets; leave empty for all", example: "Read, Glob, Grep, Bash" },
+  { key: "disallowedTools", label: "Disallowed Tools", hint: "Native tools taken away from the agent", example: "Write, Edit" },
+  { key: "bashCommands", label: "Allowed Bash Commands", hint: "Patterns the agent's Bash commands must match; * matches anything", example: "npm test *, git diff *" },
+  { key: "writablePaths", label: "Writable Paths", hint: "Globs, relative to the working directory, that Write/Edit may touch. Bash can still write anywhere unless Bash Commands is restricted too", example: "src/**, docs" },
+];
+
+// Written in a field to mean an empty list (e.g. no writable paths at all)
+const NONE = "none";
+
+export function emptyToolPolicyForm(): ToolPolicyFormValues {
+  return { allowedTools: "", disallowedTools: "", bashCommands: "", writablePaths: "" };
+}
+
+/**
+ * Form values from a stored tool policy (a JSON string or parsed object)
+ */
+export function toolPolicyToForm(policy: string | ToolPolicyValue | null | undefined): ToolPolicyFormValues {
+  const form = emptyToolPolicyForm();
+  if (!policy) return form;
+  let parsed: ToolPolicyValue;
+  try {
+    parsed = typeof policy === "string" ? JSON.parse(policy) : policy;
+  } catch {
+    return form;
+  }
+  for (const { key } of TOOL_POLICY_FIELDS) {
+    const value = parsed[key];
+    if (Array.isArray(value)) form[key] = value.length > 0 ? value.join(", ") : NONE;
+  }
+  return form;
+}
+
+/**
+ * Request body value for a tool policy form. Empty fields inherit from the
+ * role; null when all are empty.
+ */
+export function formToToolPolicy(form: ToolPolicyFormValues): ToolPolicyValue | null {
+  const policy: ToolPolicyValue = {};
+  for (const { key } of TOOL_POLICY_FIELDS) {
+    const value = form[key].trim();
+    if (value === "") continue;
+    policy[key] = value.toLowerCase() === NONE ? [] : value.split(",").map((v) => v.trim()).filter(Boolean);
+  }
+  return Object.keys(policy).length > 0 ? policy : null;
+}
+
+interface Props {
+  values: ToolPolicyFormValues;
+  onChange: (values: ToolPolicyFormValues) => void;
+  // What the agent's role allows, shown when a field is left empty
+  placeholders?: Partial<ToolPolicyFormValues>;
+  disabled?: boolean;
+}
+
+export function ToolPolicyFields({ values, onChange, placeholders, disabled }: Props) {
+  return (
+    <div className="grid gap-3 grid-cols-2 max-w-2xl">
+      {TOOL_POLICY_FIELDS.map(({ key, label, hint, example }) => (
+        <div key={key}>
+          <label htmlFor={`tool-policy-${key}`} className="text-xs text-text-muted block mb-1" title={hint}>
+            {label}
+          </label>
+          <input
+            id={`tool-policy-${key}`}
+            value={values[key]}
+            onChange={(e) => onChange({ ...values, [key]: e.target.value })}
+            disabled={disabled}
+            placeholder={placeholders?.[key] || `any (e.g. ${example})`}
+            className="w-full bg-bg border border-border rounded px-3 py-1.5 text-sm font-mono focus:outline-none focus:border-accent disabled:opacity-50"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  runs: number;
+}
+
+interface UsageSummary {
+  totals: UsageTotals;
+  byAgent: Array<UsageTotals & { agentId: string | null; agentName: string; models: string[] }>;
+  byModel: Array<UsageTotals & { model: string; providerId: string }>;
+  byProvider: Array<UsageTotals & { providerId: string }>;
+}
+
+type Breakdown = "agent" | "model" | "provider";
+
+interface Props {
+  conversationId: string;
+  // Bump to refetch (e.g. on a usage_update SSE event)
+  refreshKey?: number | string;
+}
+
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(2)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return "<$0.01";
+  return `$${usd.toFixed(2)}`;
+}
+
+export function UsagePanel({ conversationId, refreshKey }: Props) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [breakdown, setBreakdown] = useState<Breakdown>("agent");
+
+  useEffect(() => {
+    fetch(`/api/conversations/${conversationId}/usage`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => { if (data) setUsage(data); })
+      .catch(() => {});
+  }, [conversationId, refreshKey]);
+
+  if (!usage || usage.totals.runs === 0) return null;
+
+  const rows = breakdown === "agent"
+    ? usage.byAgent.map((r) => ({ key: r.agentId || r.agentName, label: r.agentName, detail: r.models.join(", "), ...r }))
+    : breakdown === "model"
+      ? usage.byModel.map((r) => ({ key: r.model, label: r.model, detail: r.providerId, ...r }))
+      : usage.byProvider.map((r) => ({ key: r.providerId, label: r.providerId, detail: "", ...r }));
+
+  const maxCost = Math.max(...rows.map((r) => r.costUsd), 0);
+
+  return (
+    <div className="bg-bg-card border border-border rounded-lg overflow-hidden">
+      {/* Header with totals */}
+      <div className="px-4 py-3 border-b border-border flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <span className="text-xs text-text-muted font-medium">Token Usage</span>
+          <span className="text-sm font-bold text-text">{formatCost(usage.totals.costUsd)}</span>
+          <span className="text-[10px] text-text-muted font-mono">
+            {formatTokens(usage.totals.inputTokens)} in &middot; {formatTokens(usage.totals.outputTokens)} out
+            {(usage.totals.cacheReadTokens > 0 || usage.totals.cacheWriteTokens > 0) && (
+              <> &middot; {formatTokens(usage.totals.cacheReadTokens)} cache read &middot; {formatTokens(usage.totals.cacheWriteTokens)} cache write</>
+            )}
+          </span>
+        </div>
+        <div className="flex items-center gap-0.5 bg-bg rounded p-0.5">
+          {(["agent", "model", "provider"] as const).map((b) => (
+            <button
+              key={b}
+              onClick={() => setBreakdown(b)}
+              className={`text-[10px] px-2 py-0.5 rounded transition-colors capitalize ${breakdown === b ? "bg-accent/20 text-accent" : "text-text-muted hover:text-text"}`}
+            >
+              {b}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-text-muted border-b border-border">
+              <th className="text-left py-2 px-3 font-medium capitalize">{breakdown}</th>
+              <th className="text-right py-2 px-3 font-medium">Runs</th>
+              <th className="text-right py-2 px-3 font-medium">Input</th>
+              <th className="text-right py-2 px-3 font-medium">Output</th>
+              <th className="text-right py-2 px-3 font-medium">Cache R/W</th>
+              <th className="text-right py-2 px-3 font-medium">Est. Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className="border-b border-border/50 hover:bg-bg-hover">
+                <td className="py-1.5 px-3">
+                  <div className="text-text">{row.label}</div>
+                  {row.detail && <div className="text-[10px] text-text-muted font-mono">{row.detail}</div>}
+                </td>
+                <td className="py-1.5 px-3 text-right font-mono text-text-muted">{row.runs}</td>
+                <td className="py-1.5 px-3 text-right font-mono">{formatTokens(row.inputTokens)}</td>
+                <td className="py-1.5 px-3 text-right font-mono">{formatTokens(row.outputTokens)}</td>
+                <td className="py-1.5 px-3 text-right font-mono text-text-muted">
+                  {formatTokens(row.cacheReadTokens)} / {formatTokens(row.cacheWriteTokens)}
+                </td>
+                <td className="py-1.5 px-3 text-right">
+                  <div className="flex items-center justify-end gap-2">
+                    <div className="w-16 h-1 bg-bg rounded overflow-hidden">
+                      <div className="h-full bg-accent" style={{ width: `${maxCost > 0 ? (row.costUsd / maxCost) * 100 : 0}%` }} />
+                    </div>
+                    <span className="font-mono w-14 text-right">{formatCost(row.costUsd)}</span>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
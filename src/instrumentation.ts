@@ -0,0 +1,26 @@
+/**
+ * Next.js server startup hook. Runs once per server process, before any
+ * request is handled.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  // Anything still "running" in the database was cut off by a restart
+  const { recoverInterruptedRuns } = await import("./lib/orchestrator");
+  try {
+    await recoverInterruptedRuns();
+  } catch (err) {
+    console.error("[AgentMafia] Boot recovery failed:", err);
+  }
+
+  const { startWebhookDispatcher } = await import("./lib/webhooks");
+  startWebhookDispatcher();
+
+  // Scheduled tasks start once recovery has settled what's still running
+  const { startScheduleRunner } = await import("./lib/schedules");
+  try {
+    await startScheduleRunner();
+  } catch (err) {
+    console.error("[AgentMafia] Schedule runner failed to start:", err);
+  }
+}
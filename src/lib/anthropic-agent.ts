@@ -1,4 +1,10 @@
 import { query, type McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
+import type { ModelUsage } from "./usage";
+import { getCassette, type SessionStep } from "./cassette";
+import { checkToolUse, sdkToolOptions, type ToolPolicy } from "./tool-policy";
+
+// Prefix the SDK gives tools from the "agentmafia" MCP server
+const MCP_TOOL_PREFIX = "mcp__agentmafia__";
 
 export interface ImageInput {
   type: "base64";
@@ -17,13 +23,74 @@ interface RunAgentOptions {
   maxTurns?: number;
   onDelta?: (text: string) => void;
   onToolUse?: (toolName: string, toolInput: unknown) => void;
+  // Called with each API call's token usage as it happens (estimated cost, no costUsd)
+  onUsage?: (usage: ModelUsage) => void;
+  // Awaited before every tool call; the call waits until it resolves (used to pause)
+  beforeToolUse?: (toolName: string) => Promise<void>;
+  // Native tool calls that break the policy are refused, and reported here
+  toolPolicy?: ToolPolicy;
+  onToolDenied?: (toolName: string, toolInput: Record<string, unknown>, reason: string) => void;
+  // Awaited before every native tool call that passes the policy; a returned reason refuses the call
+  approveToolUse?: (toolName: string, toolInput: Record<string, unknown>) => Promise<string | null>;
   signal?: AbortSignal;
   abortController?: AbortController;
   mcpServer?: McpSdkServerConfigWithInstance | null;
+  // Keys this agent's sessions in a record/replay cassette
+  agentName?: string;
+  // Runs orchestration tools when a session is replayed from a cassette
+  replayTool?: (toolName: string, input: Record<string, unknown>) => Promise<{ content: string; isError: boolean }>;
 }
 
 interface RunAgentResult {
   text: string;
+  // Per-model tokens and cost from the SDK result message, or summed from the
+  // assistant messages when the run was cut off before one arrived
+  usage: ModelUsage[];
+}
+
+/**
+ * Total tokens per model over the API messages seen so far (no cost - the
+ * caller estimates it)
+ */
+function usageByModel(messages: Iterable<ModelUsage>): ModelUsage[] {
+  const totals = new Map<string, ModelUsage>();
+  for (const m of messages) {
+    const total = totals.get(m.model) ?? { model: m.model, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    total.inputTokens += m.inputTokens;
+    total.outputTokens += m.outputTokens;
+    total.cacheReadTokens += m.cacheReadTokens;
+    total.cacheWriteTokens += m.cacheWriteTokens;
+    totals.set(m.model, total);
+  }
+  return [...totals.values()];
+}
+
+/**
+ * Play a recorded session back without starting Claude Code: text, usage and
+ * tool calls are reported as they were, and orchestration tools are run so
+ * delegation and messaging happen again.
+ */
+async function replaySession(
+  agentName: string,
+  { onDelta, onToolUse, onUsage, beforeToolUse, signal, replayTool }: Pick<
+    RunAgentOptions,
+    "onDelta" | "onToolUse" | "onUsage" | "beforeToolUse" | "signal" | "replayTool"
+  >
+): Promise<RunAgentResult> {
+  const session = getCassette()!.next(agentName, "sessions");
+  for (const step of session.steps) {
+    if (signal?.aborted) return { text: "[Job stopped by the boss]", usage: [] };
+    if (step.usage) onUsage?.(step.usage);
+    if (step.text) onDelta?.(step.text);
+    for (const toolUse of step.toolUses) {
+      await beforeToolUse?.(toolUse.name);
+      onToolUse?.(toolUse.name, toolUse.input);
+      if (toolUse.name.startsWith(MCP_TOOL_PREFIX) && replayTool) {
+        await replayTool(toolUse.name.slice(MCP_TOOL_PREFIX.length), (toolUse.input ?? {}) as Record<string, unknown>);
+      }
+    }
+  }
+  return { text: session.text, usage: session.usage };
 }
 
 /**
@@ -40,13 +107,27 @@ export async function runAgent({
   maxTurns: maxTurnsOverride,
   onDelta,
   onToolUse,
+  onUsage,
+  beforeToolUse,
+  toolPolicy,
+  onToolDenied,
+  approveToolUse,
   signal,
   abortController: providedAbortController,
   mcpServer,
+  agentName = "unattributed",
+  replayTool,
 }: RunAgentOptions): Promise<RunAgentResult> {
+  const cassette = getCassette();
+  if (cassette?.mode === "replay") {
+    return replaySession(agentName, { onDelta, onToolUse, onUsage, beforeToolUse, signal, replayTool });
+  }
+  // Assistant messages of this session, kept when recording a cassette
+  const recordedSteps: SessionStep[] | null = cassette?.mode === "record" ? [] : null;
+
   const abortController = providedAbortController || new AbortController();
   if (signal && !providedAbortController) {
-    if (signal.aborted) return { text: "[Job stopped by the boss]" };
+    if (signal.aborted) return { text: "[Job stopped by the boss]", usage: [] };
     signal.addEventListener("abort", () => abortController.abort(), { once: true });
   }
 
@@ -69,9 +150,13 @@ export async function runAgent({
     maxTurns: maxTurnsOverride ?? 15,
     persistSession: false,
     abortController,
+    // Nobody is there to answer permission prompts in a headless run; what an
+    // agent may do is decided by its tool policy and the approval gate in the
+    // PreToolUse hook below
     permissionMode: "bypassPermissions" as const,
     allowDangerouslySkipPermissions: true,
     env: cleanEnv,
+    ...(toolPolicy && sdkToolOptions(toolPolicy)),
   };
 
   if (workingDirectory) {
@@ -83,6 +168,38 @@ export async function runAgent({
     options.enableChrome = true;
   }
 
+  // Before each tool call, in order: hold while the caller says so (used to
+  // pause), refuse what the agent's tool policy doesn't allow, then wait for a
+  // human where approval is required. Pauses and approvals can be long, so the
+  // hook gets a day before the CLI gives up on it.
+  if (beforeToolUse || toolPolicy || approveToolUse) {
+    options.hooks = {
+      PreToolUse: [{
+        hooks: [async (input) => {
+          if (input.hook_event_name !== "PreToolUse") return {};
+          await beforeToolUse?.(input.tool_name);
+
+          const toolInput = (input.tool_input && typeof input.tool_input === "object" ? input.tool_input : {}) as Record<string, unknown>;
+          let reason = toolPolicy ? checkToolUse(toolPolicy, input.tool_name, toolInput, workingDirectory ?? process.cwd()) : null;
+          if (reason) {
+            onToolDenied?.(input.tool_name, toolInput, reason);
+          } else if (approveToolUse) {
+            reason = await approveToolUse(input.tool_name, toolInput);
+          }
+          if (!reason) return {};
+          return {
+            hookSpecificOutput: {
+              hookEventName: "PreToolUse" as const,
+              permissionDecision: "deny" as const,
+              permissionDecisionReason: reason,
+            },
+          };
+        }],
+        timeout: 24 * 60 * 60,
+      }],
+    };
+  }
+
   // Attach MCP server if provided (delegation tools for managers, or subordinate tools for soldiers with reports)
   if (mcpServer) {
     options.mcpServers = { agentmafia: mcpServer };
@@ -94,6 +211,13 @@ export async function runAgent({
 
   let resultText = "";
   let lastAssistantText = "";
+  let usage: ModelUsage[] = [];
+  // The SDK emits one assistant message per content block, all carrying the same
+  // API message id and usage - only report the growth per id
+  const seenUsage = new Map<string, ModelUsage>();
+  // What was spent if no result message reports it
+  const spentUsage = () => (usage.length > 0 ? usage : usageByModel(seenUsage.values()));
+  let stepUsage: ModelUsage | undefined;
 
   try {
     const q = query({ prompt, options });
@@ -104,6 +228,31 @@ export async function runAgent({
       if (msgType !== "assistant" && msgType !== "result") {
         console.log(`[AgentMafia SDK] Unknown msg type: ${msgType}`, JSON.stringify(msg).slice(0, 300));
       }
+      stepUsage = undefined;
+      if (msg.type === "assistant" && msg.message?.usage) {
+        const u = msg.message.usage;
+        const current: ModelUsage = {
+          model: msg.message.model || model,
+          inputTokens: u.input_tokens ?? 0,
+          outputTokens: u.output_tokens ?? 0,
+          cacheReadTokens: u.cache_read_input_tokens ?? 0,
+          cacheWriteTokens: u.cache_creation_input_tokens ?? 0,
+        };
+        const previous = seenUsage.get(msg.message.id);
+        seenUsage.set(msg.message.id, current);
+        const delta: ModelUsage = {
+          model: current.model,
+          inputTokens: current.inputTokens - (previous?.inputTokens ?? 0),
+          outputTokens: current.outputTokens - (previous?.outputTokens ?? 0),
+          cacheReadTokens: current.cacheReadTokens - (previous?.cacheReadTokens ?? 0),
+          cacheWriteTokens: current.cacheWriteTokens - (previous?.cacheWriteTokens ?? 0),
+        };
+        if (delta.inputTokens + delta.outputTokens + delta.cacheReadTokens + delta.cacheWriteTokens > 0) {
+          stepUsage = delta;
+          onUsage?.(delta);
+        }
+      }
+
       // Capture assistant message text
       if (msg.type === "assistant" && msg.message?.content) {
         const textParts: string[] = [];
@@ -120,6 +269,17 @@ export async function runAgent({
           lastAssistantText = textParts.join("");
           onDelta?.(lastAssistantText);
         }
+
+        if (recordedSteps) {
+          const toolUses: SessionStep["toolUses"] = [];
+          for (const block of msg.message.content) {
+            const b = block as unknown as Record<string, unknown>;
+            if ((b.type === "tool_use" || b.type === "server_tool_use" || b.type === "mcp_tool_use") && typeof b.name === "string") {
+              toolUses.push({ name: b.name, input: b.input });
+            }
+          }
+          recordedSteps.push({ text: textParts.join(""), toolUses, usage: stepUsage });
+        }
       }
 
       // Detect tool use and notify callback
@@ -175,6 +335,15 @@ export async function runAgent({
 
       // Capture final result
       if (msg.type === "result") {
+        // modelUsage covers every model the CLI used (e.g. Haiku for subtasks), with exact cost
+        usage = Object.entries(msg.modelUsage || {}).map(([model, u]) => ({
+          model,
+          inputTokens: u.inputTokens,
+          outputTokens: u.outputTokens,
+          cacheReadTokens: u.cacheReadInputTokens,
+          cacheWriteTokens: u.cacheCreationInputTokens,
+          costUsd: u.costUSD,
+        }));
         if (msg.subtype === "success" && !("is_error" in msg && msg.is_error)) {
           resultText = msg.result || lastAssistantText;
         } else {
@@ -184,14 +353,19 @@ export async function runAgent({
       }
     }
   } catch (err) {
-    if (signal?.aborted) return { text: "[Job stopped by the boss]" };
-    if (abortController.signal.aborted) return { text: lastAssistantText || resultText || "[Agent completed]" };
+    if (signal?.aborted) return { text: "[Job stopped by the boss]", usage: spentUsage() };
+    if (abortController.signal.aborted) return { text: lastAssistantText || resultText || "[Agent completed]", usage: spentUsage() };
     console.error("[AgentMafia SDK] Query error:", err);
-    if (lastAssistantText) return { text: lastAssistantText };
+    if (lastAssistantText) return { text: lastAssistantText, usage: spentUsage() };
     throw err;
   }
 
   if (!resultText && lastAssistantText) resultText = lastAssistantText;
+  usage = spentUsage();
+
+  if (recordedSteps) {
+    cassette!.record(agentName, "sessions", { steps: recordedSteps, text: resultText, usage });
+  }
 
-  return { text: resultText };
+  return { text: resultText, usage };
 }
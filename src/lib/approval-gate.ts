@@ -0,0 +1,317 @@
+/**
+ * Approval Gate
+ *
+ * Holds risky tool calls until a human says yes: Bash commands matching
+ * configured patterns (rm -rf, git push, package installs...), writes outside
+ * the conversation's working directory, and network access. Each request is
+ * an Escalation of kind "approval" answered from the conversation page, where
+ * the boss can approve once, always allow that kind of call for the rest of
+ * the conversation, or deny. A denied call never runs and the agent is told.
+ *
+ * Bash patterns are matched against each simple command both as written and
+ * with leading VAR=value assignments and command/env/sudo wrappers removed,
+ * the program's directory dropped (/bin/rm is rm) and short flags taken one
+ * by one, so "rm -rf *" also catches "rm -r -f", "rm -Rfv" and "sudo rm -fr".
+ *
+ * The gate is off unless the approvalGate setting is "on". "Always allow"
+ * answers are stored on their escalations, so they outlive restarts.
+ */
+
+import * as path from "path";
+import { prisma } from "./db";
+import { escalationManager } from "./escalation";
+import { writtenFilePath } from "./file-conflicts";
+import { bashCommandParts, commandMatches } from "./tool-policy";
+
+// ==================== SETTINGS ====================
+
+export const APPROVAL_SETTING_KEYS = {
+  enabled: "approvalGate",
+  bashPatterns: "approvalBashPatterns",
+  outsideWrites: "approvalOutsideWrites",
+  network: "approvalNetwork",
+} as const;
+
+export const DEFAULT_APPROVAL_BASH_PATTERNS = [
+  "rm -rf *",
+  "rm -fr *",
+  "git push *",
+  "git reset --hard *",
+  "npm install *",
+  "npm i *",
+  "yarn add *",
+  "pnpm add *",
+  "pip install *",
+  "sudo *",
+];
+
+// Tools and commands that reach the network
+const NETWORK_TOOLS = ["WebFetch", "WebSearch"];
+const NETWORK_COMMANDS = ["curl *", "wget *"];
+
+// Programs that run the rest of the line, with their options that take a value
+const COMMAND_WRAPPERS: Record<string, string[]> = {
+  command: [],
+  env: ["-u", "-C", "-S"],
+  sudo: ["-u", "-g", "-C", "-h", "-p", "-U", "-D", "-r", "-t", "-T"],
+};
+
+// Other spellings of a program's flags, so either form matches a pattern
+const FLAG_ALIASES: Record<string, Record<string, string>> = {
+  rm: { R: "r", "--recursive": "r", "--force": "f" },
+};
+
+export const APPROVAL_ANSWERS = ["approve", "always", "deny"] as const;
+export type ApprovalAnswer = (typeof APPROVAL_ANSWERS)[number];
+
+interface ApprovalRules {
+  enabled: boolean;
+  bashPatterns: string[];
+  outsideWrites: boolean;
+  network: boolean;
+}
+
+/**
+ * Validate an approval setting value. Returns an error message, or null if
+ * the value is fine (or the key isn't an approval setting).
+ */
+export function validateApprovalSetting(key: string, value: string): string | null {
+  if (key === APPROVAL_SETTING_KEYS.enabled && !["on", "off"].includes(value)) {
+    return `${key} must be "on" or "off"`;
+  }
+  if ((key === APPROVAL_SETTING_KEYS.outsideWrites || key === APPROVAL_SETTING_KEYS.network) && !["true", "false"].includes(value)) {
+    return `${key} must be "true" or "false"`;
+  }
+  return null;
+}
+
+/**
+ * Bash patterns from the setting, one per line; empty means the defaults
+ */
+function parsePatterns(value: string | undefined): string[] {
+  const patterns = (value ?? "").split("\n").map((p) => p.trim()).filter(Boolean);
+  return patterns.length > 0 ? patterns : DEFAULT_APPROVAL_BASH_PATTERNS;
+}
+
+async function loadApprovalRules(): Promise<ApprovalRules> {
+  const settings = await prisma.setting.findMany({
+    where: { key: { in: Object.values(APPROVAL_SETTING_KEYS) } },
+  });
+  const read = (key: string) => settings.find((s) => s.key === key)?.value;
+  return {
+    enabled: read(APPROVAL_SETTING_KEYS.enabled) === "on",
+    bashPatterns: parsePatterns(read(APPROVAL_SETTING_KEYS.bashPatterns)),
+    outsideWrites: read(APPROVAL_SETTING_KEYS.outsideWrites) !== "false",
+    network: read(APPROVAL_SETTING_KEYS.network) !== "false",
+  };
+}
+
+// ==================== MATCHING ====================
+
+interface ParsedCommand {
+  // Everything but the short flags, space separated
+  words: string;
+  flags: Set<string>;
+}
+
+/**
+ * Split a command's short flags out of its words: "rm -rf build" and
+ * "rm -f -r build" both become words "rm build" with flags r and f
+ */
+function parseCommand(tokens: string[]): ParsedCommand {
+  const aliases = FLAG_ALIASES[tokens[0]] ?? {};
+  const words = tokens.slice(0, 1);
+  const flags = new Set<string>();
+  for (const token of tokens.slice(1)) {
+    if (Object.hasOwn(aliases, token)) {
+      flags.add(aliases[token]);
+    } else if (/^-[A-Za-z]+$/.test(token)) {
+      for (const flag of token.slice(1)) flags.add(Object.hasOwn(aliases, flag) ? aliases[flag] : flag);
+    } else {
+      words.push(token);
+    }
+  }
+  return { words: words.join(" "), flags };
+}
+
+/**
+ * The command that actually runs: leading assignments and wrappers removed,
+ * and the program without its directory
+ */
+function unwrapCommand(tokens: string[]): string[] {
+  let i = 0;
+  while (i < tokens.length) {
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(tokens[i])) {
+      i++;
+      continue;
+    }
+    const wrapper = path.basename(tokens[i]);
+    if (!Object.hasOwn(COMMAND_WRAPPERS, wrapper)) break;
+    for (i++; i < tokens.length && tokens[i].startsWith("-"); i++) {
+      if (COMMAND_WRAPPERS[wrapper].includes(tokens[i])) i++;
+    }
+  }
+  const rest = tokens.slice(i);
+  return rest.length > 0 ? [path.basename(rest[0]), ...rest.slice(1)] : rest;
+}
+
+/**
+ * A simple command as written and as it runs. Quotes are dropped, so quoting
+ * a word doesn't hide it from a pattern.
+ */
+function commandForms(part: string): ParsedCommand[] {
+  const tokens = part.split(" ").map((token) => token.replace(/['"\\]/g, ""));
+  return [parseCommand(tokens), parseCommand(unwrapCommand(tokens))];
+}
+
+function matchesPattern(pattern: string, forms: ParsedCommand[]): boolean {
+  const wanted = parseCommand(pattern.trim().split(/\s+/));
+  return forms.some(
+    (form) => [...wanted.flags].every((flag) => form.flags.has(flag)) && commandMatches(wanted.words, form.words)
+  );
+}
+
+interface RiskyCall {
+  // Shown to the boss, e.g. `runs "git push origin main"`
+  reason: string;
+  // What "always allow" covers; also its label, e.g. `Bash commands matching "git push *"`
+  rule: string;
+}
+
+function riskOf(
+  rules: ApprovalRules,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  workingDirectory?: string
+): RiskyCall | null {
+  if (rules.network && NETWORK_TOOLS.includes(toolName)) {
+    const target = typeof toolInput.url === "string" ? toolInput.url : typeof toolInput.query === "string" ? `"${toolInput.query}"` : "";
+    return { reason: `uses ${toolName}${target ? ` on ${target}` : ""}`, rule: `network access via ${toolName}` };
+  }
+
+  if (toolName === "Bash" && typeof toolInput.command === "string") {
+    for (const part of bashCommandParts(toolInput.command)) {
+      const forms = commandForms(part);
+      const pattern = rules.bashPatterns.find((p) => matchesPattern(p, forms));
+      if (pattern) return { reason: `runs "${part}"`, rule: `Bash commands matching "${pattern}"` };
+      const fetch = rules.network ? NETWORK_COMMANDS.find((p) => matchesPattern(p, forms)) : undefined;
+      if (fetch) return { reason: `runs "${part}"`, rule: `network access via ${fetch.split(" ")[0]}` };
+    }
+  }
+
+  const filePath = writtenFilePath(toolName, toolInput);
+  if (rules.outsideWrites && filePath && workingDirectory) {
+    const absolute = path.resolve(workingDirectory, filePath);
+    const relative = path.relative(workingDirectory, absolute);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      return { reason: `writes ${absolute}, outside the working directory`, rule: `writes under ${path.dirname(absolute)}` };
+    }
+  }
+  return null;
+}
+
+// ==================== APPROVALS ====================
+
+// conversationId -> rules the boss said to always allow
+const alwaysAllowed = new Map<string, Set<string>>();
+
+async function loadAlwaysAllowed(conversationId: string): Promise<Set<string>> {
+  let rules = alwaysAllowed.get(conversationId);
+  if (!rules) {
+    const granted = await prisma.escalation.findMany({
+      where: { conversationId, kind: "approval", answer: "always" },
+      select: { rule: true },
+    });
+    rules = new Set(granted.flatMap((e) => (e.rule ? [e.rule] : [])));
+    alwaysAllowed.set(conversationId, rules);
+  }
+  return rules;
+}
+
+function waitForDecision(escalationId: string, signal?: AbortSignal): Promise<string> {
+  if (signal?.aborted) return Promise.resolve("deny");
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      escalationManager.resolveAnswer(escalationId, "deny");
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    escalationManager.waitForAnswer(escalationId).then((answer) => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(answer);
+    });
+  });
+}
+
+/**
+ * Ask the boss before a risky tool call runs. Resolves to the reason the call
+ * was refused, or null if it may go ahead (including when it isn't risky).
+ */
+export async function gateToolUse({
+  conversationId,
+  agentId,
+  agentName,
+  toolName,
+  toolInput,
+  workingDirectory,
+  signal,
+  emitActivity,
+}: {
+  conversationId: string;
+  agentId: string;
+  agentName: string;
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  workingDirectory?: string;
+  signal?: AbortSignal;
+  emitActivity: (conversationId: string, eventType: string, data: Record<string, unknown>) => Promise<void>;
+}): Promise<string | null> {
+  if (toolName.startsWith("mcp__")) return null;
+  const rules = await loadApprovalRules();
+  if (!rules.enabled) return null;
+
+  const risk = riskOf(rules, toolName, toolInput, workingDirectory);
+  if (!risk) return null;
+  const granted = await loadAlwaysAllowed(conversationId);
+  if (granted.has(risk.rule)) return null;
+
+  const escalation = await prisma.escalation.create({
+    data: {
+      conversationId,
+      fromAgentId: agentId,
+      question: `${agentName} ${risk.reason}`,
+      kind: "approval",
+      tool: toolName,
+      toolInput: JSON.stringify(toolInput),
+      rule: risk.rule,
+    },
+  });
+  await emitActivity(conversationId, "approval_requested", {
+    escalationId: escalation.id,
+    agentId,
+    agentName,
+    tool: toolName,
+    input: toolInput,
+    question: escalation.question,
+    rule: risk.rule,
+  });
+
+  const answer = await waitForDecision(escalation.id, signal);
+  const decision: ApprovalAnswer = (APPROVAL_ANSWERS as readonly string[]).includes(answer) ? (answer as ApprovalAnswer) : "deny";
+  if (decision === "always") granted.add(risk.rule);
+
+  await prisma.escalation.update({
+    where: { id: escalation.id },
+    data: { answer: decision, status: "answered" },
+  });
+  await emitActivity(conversationId, "approval_resolved", {
+    escalationId: escalation.id,
+    agentId,
+    agentName,
+    tool: toolName,
+    decision,
+    rule: risk.rule,
+  });
+
+  if (decision !== "deny") return null;
+  return signal?.aborted ? "The operation was stopped" : `The boss denied this: ${agentName} ${risk.reason}`;
+}
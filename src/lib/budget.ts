@@ -0,0 +1,252 @@
+/**
+ * Per-Conversation Budgets
+ *
+ * Caps tokens, dollars and wall-clock time for an operation. Token and dollar
+ * limits cover the whole conversation (follow-ups included); the time limit
+ * applies to each orchestration run. Crossing 80% of a limit emits a warning,
+ * crossing the limit itself hands control back to the orchestrator to stop.
+ */
+
+import { prisma } from "./db";
+import { usageCost, type TokenUsage, type ModelUsage } from "./usage";
+import { getPausedMs, setPauseAwareTimeout } from "./pause";
+
+// ==================== TYPES ====================
+
+export interface Budget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxMinutes?: number;
+}
+
+export type BudgetLimit = "tokens" | "cost" | "time";
+
+export interface BudgetStatus {
+  limit: BudgetLimit;
+  used: number;
+  max: number;
+}
+
+export const BUDGET_SETTING_KEYS: Record<keyof Budget, string> = {
+  maxTokens: "budgetMaxTokens",
+  maxCostUsd: "budgetMaxCostUsd",
+  maxMinutes: "budgetMaxMinutes",
+};
+
+const WARNING_THRESHOLD = 0.8;
+
+// ==================== PARSING ====================
+
+/**
+ * Validate a budget from a request body. Missing or null fields mean no limit.
+ */
+export function parseBudget(input: unknown): { budget?: Budget; error?: string } {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "budget must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const budget: Budget = {};
+  for (const field of Object.keys(BUDGET_SETTING_KEYS) as Array<keyof Budget>) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+      return { error: `budget.${field} must be a positive number` };
+    }
+    budget[field] = value;
+  }
+  return { budget: Object.keys(budget).length > 0 ? budget : undefined };
+}
+
+/**
+ * Validate a global budget setting value. Empty string clears the limit.
+ */
+export function isValidBudgetSetting(value: string): boolean {
+  if (value === "") return true;
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0;
+}
+
+/**
+ * Effective budget for a conversation: its own limits, falling back to the
+ * global settings field by field
+ */
+export async function resolveBudget(conversationId: string): Promise<Budget> {
+  const [conversation, settings] = await Promise.all([
+    prisma.conversation.findUnique({ where: { id: conversationId }, select: { budget: true } }),
+    prisma.setting.findMany({ where: { key: { in: Object.values(BUDGET_SETTING_KEYS) } } }),
+  ]);
+
+  let own: Budget = {};
+  if (conversation?.budget) {
+    try {
+      own = parseBudget(JSON.parse(conversation.budget)).budget || {};
+    } catch {
+      console.warn(`[Budget] Ignoring malformed budget on conversation ${conversationId}`);
+    }
+  }
+
+  const budget: Budget = {};
+  for (const field of Object.keys(BUDGET_SETTING_KEYS) as Array<keyof Budget>) {
+    const globalValue = settings.find((s) => s.key === BUDGET_SETTING_KEYS[field])?.value;
+    const value = own[field] ?? (globalValue ? Number(globalValue) : undefined);
+    if (value !== undefined && Number.isFinite(value) && value > 0) budget[field] = value;
+  }
+  return budget;
+}
+
+// ==================== TRACKING ====================
+
+/**
+ * Tokens that count against maxTokens. Cache reads are excluded - they're
+ * billed at a tenth of the input price and would dominate the count for
+ * Claude agents; the dollar limit still covers them.
+ */
+function countedTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheWriteTokens;
+}
+
+interface Spend {
+  tokens: number;
+  costUsd: number;
+}
+
+export class BudgetTracker {
+  readonly budget: Budget;
+  exceeded: BudgetStatus | null = null;
+
+  private baseline: Spend = { tokens: 0, costUsd: 0 };
+  private settled: Spend = { tokens: 0, costUsd: 0 };
+  // Estimated spend of agent runs still in progress, replaced by exact figures on settle()
+  private inFlight = new Map<string, Spend>();
+  private warned = new Set<BudgetLimit>();
+  // Cancel functions of the wall-clock timers
+  private timers: Array<() => void> = [];
+  private startedAt = Date.now();
+  // Paused time before this run, which the time limit doesn't count
+  private pausedMsAtStart: number;
+
+  constructor(
+    private conversationId: string,
+    budget: Budget,
+    private onWarning: (status: BudgetStatus) => void,
+    private onExceeded: (status: BudgetStatus) => void
+  ) {
+    this.budget = budget;
+    this.pausedMsAtStart = getPausedMs(conversationId);
+  }
+
+  /**
+   * Load prior spend for the conversation and arm the wall-clock timers,
+   * which like the other timeouts don't run while the conversation is paused
+   */
+  async start(): Promise<void> {
+    const prior = await prisma.usageRecord.aggregate({
+      where: { conversationId: this.conversationId },
+      _sum: { inputTokens: true, outputTokens: true, cacheWriteTokens: true, costUsd: true },
+    });
+    this.baseline = {
+      tokens: (prior._sum.inputTokens ?? 0) + (prior._sum.outputTokens ?? 0) + (prior._sum.cacheWriteTokens ?? 0),
+      costUsd: prior._sum.costUsd ?? 0,
+    };
+
+    if (this.budget.maxMinutes) {
+      const maxMs = this.budget.maxMinutes * 60_000;
+      this.timers.push(setPauseAwareTimeout(this.conversationId, maxMs * WARNING_THRESHOLD, () => this.check()));
+      this.timers.push(setPauseAwareTimeout(this.conversationId, maxMs, () => this.check()));
+    }
+
+    // Prior runs may already be over budget
+    this.check();
+  }
+
+  /**
+   * Add usage from a single provider call in a running agent
+   */
+  reportLive(runId: string, usage: ModelUsage, providerId: string): void {
+    const spend = this.inFlight.get(runId) || { tokens: 0, costUsd: 0 };
+    spend.tokens += countedTokens(usage);
+    spend.costUsd += usageCost(usage, providerId);
+    this.inFlight.set(runId, spend);
+    this.check();
+  }
+
+  /**
+   * Replace a run's live estimate with its final recorded usage
+   */
+  settle(runId: string, usage: ModelUsage[], providerId: string): void {
+    this.inFlight.delete(runId);
+    for (const u of usage) {
+      this.settled.tokens += countedTokens(u);
+      this.settled.costUsd += usageCost(u, providerId);
+    }
+    this.check();
+  }
+
+  spent(): Spend & { minutes: number } {
+    let tokens = this.baseline.tokens + this.settled.tokens;
+    let costUsd = this.baseline.costUsd + this.settled.costUsd;
+    for (const spend of this.inFlight.values()) {
+      tokens += spend.tokens;
+      costUsd += spend.costUsd;
+    }
+    // The pause record is cleared as the run ends, before late usage settles
+    const pausedMs = Math.max(0, getPausedMs(this.conversationId) - this.pausedMsAtStart);
+    return { tokens, costUsd, minutes: (Date.now() - this.startedAt - pausedMs) / 60_000 };
+  }
+
+  dispose(): void {
+    for (const cancel of this.timers) cancel();
+    this.timers = [];
+  }
+
+  private check(): void {
+    if (this.exceeded) return;
+
+    const spent = this.spent();
+    const statuses: BudgetStatus[] = [];
+    if (this.budget.maxTokens) statuses.push({ limit: "tokens", used: spent.tokens, max: this.budget.maxTokens });
+    if (this.budget.maxCostUsd) statuses.push({ limit: "cost", used: spent.costUsd, max: this.budget.maxCostUsd });
+    if (this.budget.maxMinutes) statuses.push({ limit: "time", used: spent.minutes, max: this.budget.maxMinutes });
+
+    for (const status of statuses) {
+      if (status.used >= status.max) {
+        this.exceeded = status;
+        this.dispose();
+        this.onExceeded(status);
+        return;
+      }
+      if (status.used >= status.max * WARNING_THRESHOLD && !this.warned.has(status.limit)) {
+        this.warned.add(status.limit);
+        this.onWarning(status);
+      }
+    }
+  }
+}
+
+// Trackers for running orchestrations, keyed by conversation
+const activeTrackers = new Map<string, BudgetTracker>();
+
+export function getBudgetTracker(conversationId: string): BudgetTracker | undefined {
+  return activeTrackers.get(conversationId);
+}
+
+export function setBudgetTracker(conversationId: string, tracker: BudgetTracker | null): void {
+  if (tracker) activeTrackers.set(conversationId, tracker);
+  else activeTrackers.delete(conversationId);
+}
+
+/**
+ * Human-readable "used / max" for SSE payloads and the partial report
+ */
+export function describeBudgetStatus(status: BudgetStatus): string {
+  switch (status.limit) {
+    case "tokens":
+      return `${Math.round(status.used).toLocaleString()} / ${status.max.toLocaleString()} tokens`;
+    case "cost":
+      return `$${status.used.toFixed(2)} / $${status.max.toFixed(2)}`;
+    case "time":
+      return `${status.used.toFixed(1)} / ${status.max} minutes`;
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Record/Replay Cassettes
+ *
+ * Set CASSETTE_MODE=record to capture every model exchange of a run to a
+ * cassette file (CASSETTE_PATH, default cassettes/orchestration.json), and
+ * CASSETTE_MODE=replay to serve them back with no network and no tokens spent.
+ *
+ * Entries are keyed by agent name and position: the Nth model turn of an
+ * agent gets the Nth recorded response, whatever order parallel agents happen
+ * to run in. Orchestration tools (delegation, mailboxes, progress) still run
+ * for real during replay so the whole hierarchy plays out; escalations get the
+ * boss's recorded answer, and tools that touch the machine are skipped.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type { ProviderRequest, ProviderResponse } from "./providers/types";
+import type { ProviderToolset } from "./mcp-tools";
+import type { ModelUsage } from "./usage";
+
+export type CassetteMode = "record" | "replay";
+
+const DEFAULT_CASSETTE_PATH = "cassettes/orchestration.json";
+
+/**
+ * One assistant message of a Claude Agent SDK session
+ */
+export interface SessionStep {
+  text: string;
+  toolUses: Array<{ name: string; input: unknown }>;
+  usage?: ModelUsage;
+}
+
+interface TurnEntry {
+  // Hash of the request as recorded; a mismatch on replay means prompts or history changed
+  requestHash: string;
+  response: ProviderResponse;
+}
+
+interface SessionEntry {
+  steps: SessionStep[];
+  text: string;
+  usage: ModelUsage[];
+}
+
+interface EscalationEntry {
+  question: string;
+  answer: string;
+}
+
+interface AgentTape {
+  turns: TurnEntry[];
+  sessions: SessionEntry[];
+  escalations: EscalationEntry[];
+}
+
+type TapeKind = keyof AgentTape;
+
+interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  agents: Record<string, AgentTape>;
+}
+
+// Tools with side effects outside the orchestration - not re-run on replay
+const SKIPPED_ON_REPLAY = new Set(["execute_code", "run_build", "run_tests"]);
+
+export class Cassette {
+  private cursors = new Map<string, number>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    readonly mode: CassetteMode,
+    readonly filePath: string,
+    private file: CassetteFile
+  ) {}
+
+  static load(mode: CassetteMode, filePath: string): Cassette {
+    if (mode === "record") {
+      return new Cassette(mode, filePath, { version: 1, recordedAt: new Date().toISOString(), agents: {} });
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Cassette not found: ${filePath}. Record one first with CASSETTE_MODE=record.`);
+    }
+    const file = JSON.parse(fs.readFileSync(filePath, "utf-8")) as CassetteFile;
+    if (file.version !== 1) throw new Error(`Unsupported cassette version ${file.version} in ${filePath}`);
+    return new Cassette(mode, filePath, file);
+  }
+
+  private tape(agent: string): AgentTape {
+    if (!this.file.agents[agent]) {
+      this.file.agents[agent] = { turns: [], sessions: [], escalations: [] };
+    }
+    return this.file.agents[agent];
+  }
+
+  /**
+   * Append an entry to an agent's tape and write the cassette out
+   */
+  record<K extends TapeKind>(agent: string, kind: K, entry: AgentTape[K][number]): void {
+    (this.tape(agent)[kind] as AgentTape[K][number][]).push(entry);
+    // Serialize writes so a slow one can't land after a newer one
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, JSON.stringify(this.file, null, 2), "utf-8");
+      })
+      .catch((err) => console.error(`[Cassette] Failed to write ${this.filePath}:`, err));
+  }
+
+  /**
+   * The agent's next recorded entry of a kind. Throws if the run has gone
+   * further than the recording did.
+   */
+  next<K extends TapeKind>(agent: string, kind: K): AgentTape[K][number] {
+    const key = `${agent}:${kind}`;
+    const index = this.cursors.get(key) ?? 0;
+    const entry = this.file.agents[agent]?.[kind][index];
+    if (!entry) {
+      throw new Error(`Cassette ${this.filePath} has no ${kind} #${index + 1} for agent "${agent}"`);
+    }
+    this.cursors.set(key, index + 1);
+    return entry as AgentTape[K][number];
+  }
+
+  /**
+   * Wrap a toolset for replay: orchestration tools run, tools with side
+   * effects outside it report that they were skipped
+   */
+  wrapToolset(toolset: ProviderToolset): ProviderToolset {
+    return {
+      tools: toolset.tools,
+      execute: async (toolName, input) =>
+        SKIPPED_ON_REPLAY.has(toolName)
+          ? { content: `[${toolName} skipped during cassette replay]`, isError: false }
+          : toolset.execute(toolName, input),
+    };
+  }
+}
+
+let active: Cassette | null | undefined;
+
+/**
+ * The cassette selected by CASSETTE_MODE, or null when recording/replay is off
+ */
+export function getCassette(): Cassette | null {
+  if (active === undefined) {
+    const mode = process.env.CASSETTE_MODE;
+    if (mode === "record" || mode === "replay") {
+      const filePath = path.resolve(process.env.CASSETTE_PATH || DEFAULT_CASSETTE_PATH);
+      active = Cassette.load(mode, filePath);
+      console.log(`[Cassette] ${mode === "record" ? "Recording to" : "Replaying from"} ${filePath}`);
+    } else {
+      if (mode) console.warn(`[Cassette] Ignoring unknown CASSETTE_MODE "${mode}" (expected record or replay)`);
+      active = null;
+    }
+  }
+  return active;
+}
+
+export function isReplaying(): boolean {
+  return getCassette()?.mode === "replay";
+}
+
+/**
+ * Stable fingerprint of what was sent to the model
+ */
+export function hashRequest(request: ProviderRequest): string {
+  const { model, system, messages, tools } = request;
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify({ model, system, messages, tools: tools?.map((t) => t.name) }))
+    .digest("hex")
+    .slice(0, 16);
+}
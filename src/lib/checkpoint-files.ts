@@ -0,0 +1,171 @@
+/**
+ * Checkpoint File Snapshots
+ *
+ * Captures a conversation's working directory when a checkpoint is created
+ * so the files can be rolled back to it later. Git repositories get a
+ * snapshot commit kept under a checkpoint ref (see snapshotWorkingTree);
+ * other directories are copied into a content-addressed store
+ * (CHECKPOINT_STORE_DIR, default checkpoints/) where each distinct file
+ * content is stored once, however many checkpoints include it. Short-lived
+ * snapshots (isolated workspaces) can use a store of their own instead, so
+ * they can be deleted without touching the checkpoints.
+ */
+
+import * as crypto from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { isGitRepo, snapshotWorkingTree, restoreWorkingTree, showFileAt, filesChangedSince } from "./git";
+import { listFiles } from "./file-changes";
+
+export type CheckpointFiles =
+  | { kind: "git"; sha: string }
+  // storeDir is set when the objects aren't in the checkpoint store
+  | { kind: "store"; files: Record<string, { hash: string; mode: number }>; storeDir?: string };
+
+const DEFAULT_STORE_DIR = "checkpoints";
+
+function checkpointStoreDir(): string {
+  return path.resolve(process.env.CHECKPOINT_STORE_DIR || DEFAULT_STORE_DIR);
+}
+
+function objectPath(hash: string, storeDir = checkpointStoreDir()): string {
+  return path.join(storeDir, "objects", hash.slice(0, 2), hash.slice(2));
+}
+
+/**
+ * Copy a file into a store under the hash of its content. Returns the hash.
+ */
+async function storeObject(fullPath: string, storeDir: string): Promise<string> {
+  const tmpDir = path.join(storeDir, "tmp");
+  await fs.mkdir(tmpDir, { recursive: true });
+  const tmp = path.join(tmpDir, `${process.pid}-${crypto.randomBytes(6).toString("hex")}`);
+
+  const hash = crypto.createHash("sha256");
+  const hasher = new Transform({
+    transform(chunk, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  try {
+    await pipeline(createReadStream(fullPath), hasher, createWriteStream(tmp));
+    const digest = hash.digest("hex");
+    const target = objectPath(digest, storeDir);
+    const exists = await fs.access(target).then(() => true, () => false);
+    if (!exists) {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.rename(tmp, target);
+    }
+    return digest;
+  } finally {
+    await fs.rm(tmp, { force: true });
+  }
+}
+
+/**
+ * Snapshot the files in a working directory. In a git repository the
+ * snapshot commit is kept under refs/agentmafia/<refName>; otherwise files
+ * go to storeDir when given, the checkpoint store when not.
+ */
+export async function captureFiles(
+  dir: string,
+  refName: string,
+  message: string,
+  options: { storeDir?: string } = {}
+): Promise<CheckpointFiles> {
+  if (await isGitRepo(dir)) {
+    return { kind: "git", sha: await snapshotWorkingTree(dir, refName, message) };
+  }
+
+  const paths = await listFiles(dir);
+  if (!paths) throw new Error(`${dir} has too many files to snapshot`);
+
+  const files: Record<string, { hash: string; mode: number }> = {};
+  for (const file of paths) {
+    const fullPath = path.join(dir, file);
+    try {
+      const stat = await fs.stat(fullPath);
+      files[file] = { hash: await storeObject(fullPath, options.storeDir ?? checkpointStoreDir()), mode: stat.mode & 0o777 };
+    } catch (err) {
+      // Deleted while we were copying; anything else means an incomplete snapshot
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+  }
+  return options.storeDir ? { kind: "store", files, storeDir: options.storeDir } : { kind: "store", files };
+}
+
+/**
+ * Put a working directory's files back the way a checkpoint captured them.
+ * Files created since are removed; ignored directories (node_modules, .git
+ * and the like) are left as they are.
+ */
+export async function restoreFiles(dir: string, snapshot: CheckpointFiles): Promise<{ restored: number; removed: number }> {
+  if (snapshot.kind === "git") return restoreWorkingTree(dir, snapshot.sha);
+
+  // Check everything is still in the store before changing anything
+  for (const { hash } of Object.values(snapshot.files)) {
+    await fs.access(objectPath(hash, snapshot.storeDir)).catch(() => {
+      throw new Error("Checkpoint files are missing from the checkpoint store");
+    });
+  }
+  const current = await listFiles(dir);
+  if (!current) throw new Error(`${dir} has too many files to restore`);
+
+  const entries = Object.entries(snapshot.files);
+  for (const [file, { hash, mode }] of entries) {
+    const fullPath = path.join(dir, file);
+    // A directory may have taken the file's place since
+    const existing = await fs.lstat(fullPath).catch(() => null);
+    if (existing?.isDirectory()) await fs.rm(fullPath, { recursive: true });
+    else if (existing) await fs.rm(fullPath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.copyFile(objectPath(hash, snapshot.storeDir), fullPath);
+    await fs.chmod(fullPath, mode);
+  }
+
+  const keep = new Set(entries.map(([file]) => file));
+  let removed = 0;
+  for (const file of current) {
+    if (keep.has(file)) continue;
+    await fs.rm(path.join(dir, file), { force: true });
+    removed++;
+  }
+  return { restored: entries.length, removed };
+}
+
+/**
+ * A file's contents in a snapshot, or null if it wasn't there. For git
+ * snapshots, dir is any checkout of the repository at the same relative
+ * location the snapshot was taken from.
+ */
+export async function readSnapshotFile(dir: string, snapshot: CheckpointFiles, relativePath: string): Promise<Buffer | null> {
+  if (snapshot.kind === "git") return showFileAt(dir, snapshot.sha, relativePath);
+  const entry = Object.hasOwn(snapshot.files, relativePath) ? snapshot.files[relativePath] : undefined;
+  return entry ? fs.readFile(objectPath(entry.hash, snapshot.storeDir)) : null;
+}
+
+/**
+ * Files (relative paths) in dir that were created, modified or deleted
+ * since a snapshot
+ */
+export async function changedSinceSnapshot(dir: string, snapshot: CheckpointFiles): Promise<string[]> {
+  if (snapshot.kind === "git") return filesChangedSince(dir, snapshot.sha);
+
+  const current = await listFiles(dir);
+  if (!current) throw new Error(`${dir} has too many files to compare`);
+  const changed: string[] = [];
+  for (const file of current) {
+    const entry = Object.hasOwn(snapshot.files, file) ? snapshot.files[file] : undefined;
+    const content = await fs.readFile(path.join(dir, file)).catch(() => null);
+    if (!content) continue;
+    if (!entry || crypto.createHash("sha256").update(content).digest("hex") !== entry.hash) changed.push(file);
+  }
+  const present = new Set(current);
+  for (const file of Object.keys(snapshot.files)) {
+    if (!present.has(file)) changed.push(file);
+  }
+  return changed.sort();
+}
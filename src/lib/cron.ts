@@ -0,0 +1,162 @@
+/**
+ * Cron Expressions
+ *
+ * Standard five-field cron (minute hour day-of-month month day-of-week) in
+ * server local time. Fields take *, numbers, ranges (1-5), steps (*\/15,
+ * 0-30/10), lists (1,15) and month/day names (jan, mon). Day-of-week 0 and 7
+ * are both Sunday. As in classic cron, when both day fields are restricted a
+ * day matching either one runs. @hourly, @daily, @weekly, @monthly and
+ * @yearly are accepted as shorthands.
+ */
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were "*" (affects how they combine)
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// How far ahead to look for a matching minute before giving up (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(raw: string, min: number, names?: string[]): number {
+  const named = names?.indexOf(raw.toLowerCase()) ?? -1;
+  if (named >= 0) return named + min;
+  if (!/^\d+$/.test(raw)) throw new Error(`"${raw}" is not a number`);
+  return parseInt(raw, 10);
+}
+
+function parseField(field: string, label: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepRaw] = part.split("/");
+    const step = stepRaw === undefined ? 1 : parseInt(stepRaw, 10);
+    if (!Number.isInteger(step) || step < 1 || (stepRaw !== undefined && !/^\d+$/.test(stepRaw))) {
+      throw new Error(`Invalid step in ${label} field: "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    try {
+      if (range === "*") {
+        [start, end] = [min, max];
+      } else if (range.includes("-")) {
+        const [a, b] = range.split("-");
+        [start, end] = [parseValue(a, min, names), parseValue(b, min, names)];
+      } else {
+        start = parseValue(range, min, names);
+        // "5/15" means from 5 to the end of the range in steps of 15
+        end = stepRaw === undefined ? start : max;
+      }
+    } catch (err) {
+      throw new Error(`Invalid ${label} field: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${label} field "${part}" is out of range (${min}-${max})`);
+    }
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws with a readable message if it's invalid.
+ */
+export function parseCron(expression: string): CronFields {
+  const trimmed = expression.trim();
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+  const daysOfWeek = parseField(dayOfWeek, "day-of-week", 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, "minute", 0, 59),
+    hours: parseField(hour, "hour", 0, 23),
+    daysOfMonth: parseField(dayOfMonth, "day-of-month", 1, 31),
+    months: parseField(month, "month", 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === "*",
+    anyDayOfWeek: dayOfWeek === "*",
+  };
+}
+
+/**
+ * Validate a cron expression. Returns an error message, or null if it's fine.
+ */
+export function validateCron(expression: string): string | null {
+  try {
+    const fields = parseCron(expression);
+    if (!nextCronTime(fields, new Date())) return "Cron expression never matches a real date";
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+function dayMatches(fields: CronFields, date: Date): boolean {
+  const dom = fields.daysOfMonth.has(date.getDate());
+  const dow = fields.daysOfWeek.has(date.getDay());
+  if (fields.anyDayOfMonth && fields.anyDayOfWeek) return true;
+  if (fields.anyDayOfMonth) return dow;
+  if (fields.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/**
+ * The first time strictly after `after` that the expression matches, or null
+ * if it doesn't match within the next few years.
+ */
+export function nextCronTime(expression: string | CronFields, after: Date): Date | null {
+  const fields = typeof expression === "string" ? parseCron(expression) : expression;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+  // Skip whole months, days and hours that can't match before stepping minutes
+  while (date.getFullYear() <= limit) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
@@ -1,4 +1,4 @@
-import { anthropic } from "./anthropic";
+import { routeRequest } from "./providers";
 
 const SOPRANOS_CHARACTERS = [
   "Tony Soprano",
@@ -76,14 +76,16 @@ For each relationship, provide:
 
 Call the design_organization tool with your complete organizational design.`;
 
-  const response = await anthropic.messages.create({
+  // Routed so that recorded sessions capture (and replay) the org design too
+  const response = await routeRequest("anthropic", {
     model: "claude-sonnet-4-5-20250929",
     max_tokens: 4096,
+    agent: "org-builder",
     tools: [
       {
         name: "design_organization",
         description: "Submit the complete organizational design for the mafia task force",
-        input_schema: {
+        parameters: {
           type: "object",
           properties: {
             agents: {
@@ -145,12 +147,12 @@ Call the design_organization tool with your complete organizational design.`;
   });
 
   // Extract tool use result
-  const toolUse = response.content.find((block) => block.type === "tool_use");
-  if (!toolUse || toolUse.type !== "tool_use") {
+  const toolUse = response.toolCalls.find((call) => call.name === "design_organization");
+  if (!toolUse) {
     throw new Error("Claude did not return a tool use response");
   }
 
-  const orgDesign = toolUse.input as DynamicOrgResult;
+  const orgDesign = toolUse.input as unknown as DynamicOrgResult;
 
   // Validate that all names are from Sopranos
   for (const agent of orgDesign.agents) {
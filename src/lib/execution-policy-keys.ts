@@ -0,0 +1,12 @@
+/**
+ * Global setting behind each execution policy field. Kept out of
+ * execution-policy.ts, which needs the database, so client pages can import it.
+ */
+
+export const POLICY_SETTING_KEYS = {
+  maxDepth: "maxDelegationDepth",
+  maxInvocationsPerAgent: "maxInvocationsPerAgent",
+  maxTurns: "maxAgentTurns",
+  agentTimeoutMinutes: "agentTimeoutMinutes",
+  totalTimeoutMinutes: "orchestrationTimeoutMinutes",
+} as const;
@@ -0,0 +1,175 @@
+/**
+ * Execution Policies
+ *
+ * Limits on how far an operation may run: delegation depth, how often one
+ * agent may be invoked in a task chain, turns per agent, and wall-clock
+ * timeouts per agent and per orchestration. Policies are layered - built-in
+ * defaults, then global settings, then the org template the agent was loaded
+ * from, then the agent itself, then the conversation - with each layer
+ * overriding the ones before it field by field.
+ */
+
+import { prisma } from "./db";
+import { POLICY_SETTING_KEYS } from "./execution-policy-keys";
+
+export { POLICY_SETTING_KEYS };
+
+// ==================== TYPES ====================
+
+export interface ExecutionPolicy {
+  maxDepth?: number;
+  maxInvocationsPerAgent?: number;
+  maxTurns?: number;
+  agentTimeoutMinutes?: number;
+  totalTimeoutMinutes?: number;
+}
+
+export interface ResolvedPolicy extends Required<Omit<ExecutionPolicy, "agentTimeoutMinutes">> {
+  // Unset means an agent runs until it finishes or the orchestration times out
+  agentTimeoutMinutes?: number;
+}
+
+export const DEFAULT_EXECUTION_POLICY: ResolvedPolicy = {
+  maxDepth: 15,
+  maxInvocationsPerAgent: 5,
+  maxTurns: 200,
+  totalTimeoutMinutes: 120,
+};
+
+// Counts must be whole numbers; timeouts may be fractional minutes
+const INTEGER_FIELDS: Array<keyof ExecutionPolicy> = ["maxDepth", "maxInvocationsPerAgent", "maxTurns"];
+
+const POLICY_FIELDS = Object.keys(POLICY_SETTING_KEYS) as Array<keyof ExecutionPolicy>;
+
+// ==================== PARSING ====================
+
+function isValidPolicyValue(field: keyof ExecutionPolicy, value: number): boolean {
+  if (!Number.isFinite(value) || value <= 0) return false;
+  return !INTEGER_FIELDS.includes(field) || Number.isInteger(value);
+}
+
+function describeExpected(field: keyof ExecutionPolicy): string {
+  return INTEGER_FIELDS.includes(field) ? "a positive integer" : "a positive number";
+}
+
+/**
+ * Validate a policy from a request body. Missing or null fields inherit.
+ */
+export function parsePolicy(input: unknown): { policy?: ExecutionPolicy; error?: string } {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "policy must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const policy: ExecutionPolicy = {};
+  for (const field of POLICY_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== "number" || !isValidPolicyValue(field, value)) {
+      return { error: `policy.${field} must be ${describeExpected(field)}` };
+    }
+    policy[field] = value;
+  }
+  return { policy: Object.keys(policy).length > 0 ? policy : undefined };
+}
+
+/**
+ * Validate a global policy setting. Returns an error message, or null if the
+ * key isn't a policy setting or the value is fine. Empty string clears it.
+ */
+export function validatePolicySetting(key: string, value: string): string | null {
+  const field = POLICY_FIELDS.find((f) => POLICY_SETTING_KEYS[f] === key);
+  if (!field || value === "") return null;
+  return isValidPolicyValue(field, Number(value)) ? null : `${key} must be ${describeExpected(field)}`;
+}
+
+/**
+ * Serialize a parsed policy for storage (null clears it)
+ */
+export function serializePolicy(policy: ExecutionPolicy | undefined): string | null {
+  return policy ? JSON.stringify(policy) : null;
+}
+
+function readStoredPolicy(stored: string | null | undefined, owner: string): ExecutionPolicy {
+  if (!stored) return {};
+  try {
+    return parsePolicy(JSON.parse(stored)).policy || {};
+  } catch {
+    console.warn(`[Policy] Ignoring malformed policy on ${owner}`);
+    return {};
+  }
+}
+
+// ==================== RESOLUTION ====================
+
+async function loadGlobalPolicy(): Promise<ExecutionPolicy> {
+  const settings = await prisma.setting.findMany({
+    where: { key: { in: Object.values(POLICY_SETTING_KEYS) } },
+  });
+  const policy: ExecutionPolicy = {};
+  for (const field of POLICY_FIELDS) {
+    const value = settings.find((s) => s.key === POLICY_SETTING_KEYS[field])?.value;
+    if (value && isValidPolicyValue(field, Number(value))) policy[field] = Number(value);
+  }
+  return policy;
+}
+
+function mergePolicies(...layers: ExecutionPolicy[]): ResolvedPolicy {
+  const resolved: ResolvedPolicy = { ...DEFAULT_EXECUTION_POLICY };
+  for (const layer of layers) {
+    for (const field of POLICY_FIELDS) {
+      if (layer[field] !== undefined) resolved[field] = layer[field]!;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * The layers an agent inherits before its own overrides: defaults, global
+ * settings and the org template it was loaded from
+ */
+async function loadInheritedLayers(agentId?: string): Promise<{
+  layers: ExecutionPolicy[];
+  agentPolicy: ExecutionPolicy;
+}> {
+  const [global, agent] = await Promise.all([
+    loadGlobalPolicy(),
+    agentId
+      ? prisma.agent.findUnique({
+          where: { id: agentId },
+          select: { policy: true, orgTemplateId: true, orgTemplate: { select: { policy: true } } },
+        })
+      : null,
+  ]);
+
+  // Deleting a template unlinks its agents, so a template set here exists
+  const templatePolicy = agent?.orgTemplate
+    ? readStoredPolicy(agent.orgTemplate.policy, `org template ${agent.orgTemplateId}`)
+    : {};
+
+  return {
+    layers: [global, templatePolicy],
+    agentPolicy: readStoredPolicy(agent?.policy, `agent ${agentId}`),
+  };
+}
+
+/**
+ * Effective policy for an agent running in a conversation
+ */
+export async function resolvePolicy(conversationId: string, agentId?: string): Promise<ResolvedPolicy> {
+  const [{ layers, agentPolicy }, conversation] = await Promise.all([
+    loadInheritedLayers(agentId),
+    prisma.conversation.findUnique({ where: { id: conversationId }, select: { policy: true } }),
+  ]);
+  const conversationPolicy = readStoredPolicy(conversation?.policy, `conversation ${conversationId}`);
+  return mergePolicies(...layers, agentPolicy, conversationPolicy);
+}
+
+/**
+ * What an agent would get without its own overrides, for the configure UI
+ */
+export async function resolveInheritedPolicy(agentId: string): Promise<ResolvedPolicy> {
+  const { layers } = await loadInheritedLayers(agentId);
+  return mergePolicies(...layers);
+}
@@ -0,0 +1,316 @@
+/**
+ * File Change Detection
+ *
+ * Records what agents actually did to the working directory instead of
+ * relying on them to report it. The directory is snapshotted (size, mtime and
+ * content hash per file) before each agent starts and again after it
+ * finishes; every file that differs is recorded as a FileChange against the
+ * agent and the phase in progress, with a unified diff for text files.
+ *
+ * A manager's run spans its soldiers' runs, so its before/after comparison
+ * also sees their edits. Each conversation therefore remembers the state it
+ * last recorded for every file, and a change is only recorded once: by the
+ * first agent to finish after it was made.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { prisma } from "./db";
+import { getProgressTracker } from "./progress-tracker";
+import { createUnifiedDiff } from "./unified-diff";
+
+// Dependencies, VCS data and caches: large, and not the agents' work
+const IGNORED_DIRS = new Set([
+  ".git",
+  "node_modules",
+  ".next",
+  ".turbo",
+  ".cache",
+  "__pycache__",
+  ".pytest_cache",
+  ".mypy_cache",
+  ".venv",
+  "venv",
+]);
+const MAX_FILES = 50_000;
+// Larger files are compared by size and mtime only
+const MAX_HASH_BYTES = 20 * 1024 * 1024;
+// Text content is kept for diffing up to these limits
+const MAX_TEXT_BYTES = 256 * 1024;
+const MAX_SNAPSHOT_TEXT_BYTES = 64 * 1024 * 1024;
+const MAX_STORED_DIFF_CHARS = 200_000;
+
+interface FileState {
+  size: number;
+  mtimeMs: number;
+  hash: string;
+  // Only for small text files
+  content?: string;
+}
+
+export interface DirectorySnapshot {
+  files: Map<string, FileState>;
+  // Stopped at MAX_FILES; comparisons would report phantom deletions
+  truncated: boolean;
+}
+
+export interface DetectedFileChange {
+  id: string;
+  filePath: string;
+  changeType: "created" | "modified" | "deleted";
+  additions: number | null;
+  deletions: number | null;
+}
+
+function isText(buffer: Buffer): boolean {
+  return !buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Relative paths (with "/" separators) of the regular files under a
+ * directory, leaving out IGNORED_DIRS. Null if there are more than MAX_FILES.
+ */
+export async function listFiles(dir: string): Promise<string[] | null> {
+  const files: string[] = [];
+
+  const walk = async (relativeDir: string): Promise<boolean> => {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(dir, relativeDir), { withFileTypes: true });
+    } catch {
+      return true; // Removed mid-walk or unreadable
+    }
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRS.has(entry.name) && !(await walk(relativePath))) return false;
+      } else if (entry.isFile()) {
+        if (files.length >= MAX_FILES) return false;
+        files.push(relativePath);
+      }
+    }
+    return true;
+  };
+
+  return (await walk("")) ? files : null;
+}
+
+/**
+ * Snapshot every file under a directory. Files whose size and mtime match
+ * the previous snapshot reuse its entry rather than being read again.
+ */
+export async function takeSnapshot(dir: string, previous?: DirectorySnapshot | null): Promise<DirectorySnapshot> {
+  const files = new Map<string, FileState>();
+  const paths = await listFiles(dir);
+  if (!paths) return { files, truncated: true };
+
+  let textBytes = 0;
+  for (const relativePath of paths) {
+    try {
+      const fullPath = path.join(dir, relativePath);
+      const stat = await fs.stat(fullPath);
+      const known = previous?.files.get(relativePath);
+      if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) {
+        files.set(relativePath, known);
+        textBytes += known.content?.length ?? 0;
+        continue;
+      }
+
+      if (stat.size > MAX_HASH_BYTES) {
+        files.set(relativePath, { size: stat.size, mtimeMs: stat.mtimeMs, hash: `size:${stat.size}:${stat.mtimeMs}` });
+        continue;
+      }
+
+      const buffer = await fs.readFile(fullPath);
+      const state: FileState = {
+        size: stat.size,
+        mtimeMs: stat.mtimeMs,
+        hash: crypto.createHash("sha256").update(buffer).digest("hex"),
+      };
+      if (buffer.length <= MAX_TEXT_BYTES && textBytes + buffer.length <= MAX_SNAPSHOT_TEXT_BYTES && isText(buffer)) {
+        state.content = buffer.toString("utf8");
+        textBytes += buffer.length;
+      }
+      files.set(relativePath, state);
+    } catch {
+      // Removed between listing and reading
+    }
+  }
+
+  return { files, truncated: false };
+}
+
+// ==================== PER-CONVERSATION TRACKING ====================
+
+interface Tracking {
+  // Most recent snapshot, to skip re-reading unchanged files
+  latest: DirectorySnapshot | null;
+  // State of each file as of its last recorded change (null = deleted)
+  recorded: Map<string, FileState | null>;
+}
+
+// Per conversation, per directory (agents in isolated workspaces have their own)
+const tracking = new Map<string, Map<string, Tracking>>();
+
+function trackingFor(conversationId: string, directory: string): Tracking {
+  let directories = tracking.get(conversationId);
+  if (!directories) {
+    directories = new Map();
+    tracking.set(conversationId, directories);
+  }
+  let t = directories.get(directory);
+  if (!t) {
+    t = { latest: null, recorded: new Map() };
+    directories.set(directory, t);
+  }
+  return t;
+}
+
+/**
+ * Treat the current contents of some files as already recorded, so the next
+ * agent to finish isn't credited with them. Used when changes made (and
+ * recorded) in an isolated workspace are merged into the shared directory.
+ */
+export async function markFilesRecorded(conversationId: string, directory: string, relativePaths: string[]): Promise<void> {
+  const t = trackingFor(conversationId, directory);
+  for (const relativePath of relativePaths) {
+    const fullPath = path.join(directory, relativePath);
+    try {
+      const stat = await fs.stat(fullPath);
+      const hash = stat.size > MAX_HASH_BYTES
+        ? `size:${stat.size}:${stat.mtimeMs}`
+        : crypto.createHash("sha256").update(await fs.readFile(fullPath)).digest("hex");
+      t.recorded.set(relativePath, { size: stat.size, mtimeMs: stat.mtimeMs, hash });
+    } catch {
+      t.recorded.set(relativePath, null);
+    }
+  }
+}
+
+/**
+ * Snapshot the working directory before an agent starts. Pass the result to
+ * recordAgentFileChanges once it has finished.
+ */
+export async function snapshotBeforeAgent(conversationId: string, directory: string): Promise<DirectorySnapshot> {
+  const t = trackingFor(conversationId, directory);
+  const snapshot = await takeSnapshot(directory, t.latest);
+  t.latest = snapshot;
+  return snapshot;
+}
+
+function describeChange(
+  changeType: DetectedFileChange["changeType"],
+  additions: number | null,
+  deletions: number | null
+): string {
+  if (additions === null || deletions === null) {
+    return changeType === "created" ? "Created (binary or large file)"
+      : changeType === "deleted" ? "Deleted (binary or large file)"
+      : "Modified (binary or large file)";
+  }
+  if (changeType === "created") return `Created (${additions} line${additions === 1 ? "" : "s"})`;
+  if (changeType === "deleted") return `Deleted (${deletions} line${deletions === 1 ? "" : "s"})`;
+  return `+${additions} -${deletions}`;
+}
+
+/**
+ * Compare the working directory with the snapshot taken before an agent ran
+ * and record every change it hasn't already been credited for. Progress
+ * tracking is initialized for the conversation if it isn't yet.
+ */
+export async function recordAgentFileChanges({
+  conversationId,
+  directory,
+  before,
+  agentId,
+  agentName,
+}: {
+  conversationId: string;
+  directory: string;
+  before: DirectorySnapshot;
+  agentId: string;
+  agentName: string;
+}): Promise<DetectedFileChange[]> {
+  const t = trackingFor(conversationId, directory);
+  const after = await takeSnapshot(directory, t.latest);
+  t.latest = after;
+  if (before.truncated || after.truncated) {
+    console.warn(`[FileChanges] ${directory} has more than ${MAX_FILES} files; not detecting changes`);
+    return [];
+  }
+
+  const paths = new Set([...before.files.keys(), ...after.files.keys()]);
+  const changes: Array<Omit<DetectedFileChange, "id"> & { diff: string | null }> = [];
+
+  for (const filePath of [...paths].sort()) {
+    const current = after.files.get(filePath) ?? null;
+    const started = before.files.get(filePath) ?? null;
+    if (started?.hash === current?.hash) continue;
+
+    // Another agent (one of this agent's soldiers) may already have recorded it
+    const baseline = t.recorded.has(filePath) ? t.recorded.get(filePath) ?? null : started;
+    if (baseline?.hash === current?.hash) continue;
+    t.recorded.set(filePath, current);
+
+    const changeType = !baseline ? "created" : !current ? "deleted" : "modified";
+    const oldText = baseline ? baseline.content : "";
+    const newText = current ? current.content : "";
+    if (oldText === undefined || newText === undefined) {
+      changes.push({ filePath, changeType, additions: null, deletions: null, diff: null });
+      continue;
+    }
+    const { diff, additions, deletions } = createUnifiedDiff(
+      oldText,
+      newText,
+      baseline ? `a/${filePath}` : "/dev/null",
+      current ? `b/${filePath}` : "/dev/null"
+    );
+    changes.push({
+      filePath,
+      changeType,
+      additions,
+      deletions,
+      diff: diff.length > MAX_STORED_DIFF_CHARS ? `${diff.slice(0, MAX_STORED_DIFF_CHARS)}\n... diff truncated ...\n` : diff,
+    });
+  }
+  if (changes.length === 0) return [];
+
+  const tracker = getProgressTracker(conversationId);
+  if (!(await tracker.isInitialized())) {
+    const conversation = await prisma.conversation.findUnique({ where: { id: conversationId }, select: { title: true } });
+    const task = await prisma.message.findFirst({
+      where: { conversationId, role: "user" },
+      orderBy: { createdAt: "asc" },
+      select: { content: true },
+    });
+    await tracker.initializeProject(conversation?.title ?? "Untitled", task?.content ?? conversation?.title ?? "", []);
+  }
+  const phaseId = (await tracker.getActivePhaseId(agentName)) ?? undefined;
+
+  const recorded: DetectedFileChange[] = [];
+  for (const change of changes) {
+    const row = await tracker.recordFileChange({
+      filePath: change.filePath,
+      changeType: change.changeType,
+      description: describeChange(change.changeType, change.additions, change.deletions),
+      agentName,
+      agentId,
+      phaseId,
+      detected: true,
+      diff: change.diff ?? undefined,
+      additions: change.additions ?? undefined,
+      deletions: change.deletions ?? undefined,
+    });
+    if (row) recorded.push({ id: row.id, filePath: change.filePath, changeType: change.changeType, additions: change.additions, deletions: change.deletions });
+  }
+  return recorded;
+}
+
+/**
+ * Forget a conversation's snapshots once its run is over
+ */
+export function endFileTracking(conversationId: string): void {
+  tracking.delete(conversationId);
+}
@@ -0,0 +1,141 @@
+/**
+ * Write Conflict Detection
+ *
+ * Agents sharing a working directory can edit the same file at the same time
+ * without knowing it. Every Write/Edit tool call an agent makes is noted per
+ * conversation; when an agent writes a file that another agent, still
+ * running, modified within the last few minutes, that's reported as a
+ * conflict. The writing agent is told about it in the result of its next
+ * orchestration tool call.
+ *
+ * Paths are resolved against the agent's working directory, so agents in
+ * isolated workspaces (see workspaces.ts) never conflict with each other here;
+ * their overlap is handled when the workspaces are merged.
+ */
+
+import * as path from "path";
+import { agentPool } from "./agent-pool";
+
+// Tools that change a file, and the input field naming it
+const WRITE_TOOLS: Record<string, string> = {
+  Write: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+// How long a write counts as "recent" for another agent
+const RECENT_WRITE_MS = 10 * 60 * 1000;
+
+interface FileWrite {
+  agentId: string;
+  agentName: string;
+  at: number;
+}
+
+export interface FileConflict {
+  filePath: string;
+  agentId: string;
+  agentName: string;
+  // Running agents that wrote the file recently, most recent first
+  otherAgents: Array<{ agentId: string; agentName: string; at: string }>;
+}
+
+// conversationId -> absolute path -> agentId -> last write
+const writes = new Map<string, Map<string, Map<string, FileWrite>>>();
+// conversationId -> agentId -> warnings not yet shown to the agent
+const pendingWarnings = new Map<string, Map<string, string[]>>();
+
+/**
+ * The file a tool call writes to, or null if it isn't a write
+ */
+export function writtenFilePath(toolName: string, toolInput: Record<string, unknown>): string | null {
+  const field = WRITE_TOOLS[toolName];
+  const value = field ? toolInput[field] : undefined;
+  return typeof value === "string" && value ? value : null;
+}
+
+/**
+ * Note that an agent wrote a file. Returns the conflict if another running
+ * agent wrote the same file recently, and queues a warning for the writer.
+ */
+export function recordFileWrite({
+  conversationId,
+  agentId,
+  agentName,
+  filePath,
+  workingDirectory,
+}: {
+  conversationId: string;
+  agentId: string;
+  agentName: string;
+  filePath: string;
+  workingDirectory?: string;
+}): FileConflict | null {
+  const absolutePath = path.resolve(workingDirectory ?? process.cwd(), filePath);
+  let files = writes.get(conversationId);
+  if (!files) {
+    files = new Map();
+    writes.set(conversationId, files);
+  }
+  let byAgent = files.get(absolutePath);
+  if (!byAgent) {
+    byAgent = new Map();
+    files.set(absolutePath, byAgent);
+  }
+
+  const now = Date.now();
+  const previous = byAgent.get(agentId);
+  const others = [...byAgent.values()]
+    .filter((w) => w.agentId !== agentId && now - w.at <= RECENT_WRITE_MS && agentPool.isRunning(conversationId, w.agentId))
+    .sort((a, b) => b.at - a.at);
+  byAgent.set(agentId, { agentId, agentName, at: now });
+
+  // Only report once per overlap: not again for the writer's follow-up edits
+  // unless someone else wrote the file in between
+  if (others.length === 0 || (previous && others.every((w) => w.at < previous.at))) return null;
+
+  const displayPath = workingDirectory ? path.relative(workingDirectory, absolutePath) || absolutePath : absolutePath;
+  const conflict: FileConflict = {
+    filePath: displayPath,
+    agentId,
+    agentName,
+    otherAgents: others.map((w) => ({ agentId: w.agentId, agentName: w.agentName, at: new Date(w.at).toISOString() })),
+  };
+
+  const names = others.map((w) => w.agentName).join(", ");
+  queueWarning(
+    conversationId,
+    agentId,
+    `${displayPath} was also modified by ${names} in the last few minutes, and ${others.length === 1 ? "that agent is" : "they are"} still working. ` +
+      `Re-read the file before editing it again so you don't overwrite their changes, and coordinate through your manager if you need the same file.`
+  );
+  return conflict;
+}
+
+function queueWarning(conversationId: string, agentId: string, warning: string): void {
+  let byAgent = pendingWarnings.get(conversationId);
+  if (!byAgent) {
+    byAgent = new Map();
+    pendingWarnings.set(conversationId, byAgent);
+  }
+  byAgent.set(agentId, [...(byAgent.get(agentId) ?? []), warning]);
+}
+
+/**
+ * Warnings for an agent that it hasn't been shown yet. Clears them.
+ */
+export function takeConflictWarnings(conversationId: string, agentId: string): string[] {
+  const byAgent = pendingWarnings.get(conversationId);
+  const warnings = byAgent?.get(agentId) ?? [];
+  byAgent?.delete(agentId);
+  return warnings;
+}
+
+/**
+ * Forget a conversation's writes once its run is over
+ */
+export function clearFileWrites(conversationId: string): void {
+  writes.delete(conversationId);
+  pendingWarnings.delete(conversationId);
+}
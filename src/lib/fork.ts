@@ -0,0 +1,270 @@
+/**
+ * Conversation Forking
+ *
+ * Branches a conversation at one of its messages into a new, independent
+ * conversation: the transcript up to that message, each agent's saved
+ * context, project progress and the dynamic org are copied, so a follow-up
+ * on the fork (continueTask) picks up from the same point without touching
+ * the original. Runs, usage and open escalations stay with the original.
+ *
+ * Contexts and progress are copied as they stood at the fork point, not as
+ * they are now: anything changed since is rebuilt from the last checkpoint
+ * and phase timestamps before the fork point, or left for the fork to redo.
+ */
+
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { prisma } from "./db";
+
+export interface ForkOptions {
+  // Copy the working directory next to the original and point the fork at it;
+  // otherwise both conversations share the same directory
+  copyWorkingDirectory?: boolean;
+}
+
+/**
+ * Copy a working directory to a sibling "<name>-fork-<id>" directory
+ */
+async function copyWorkingDirectory(dir: string): Promise<string> {
+  const target = `${dir.replace(/[\\/]+$/, "")}-fork-${crypto.randomBytes(4).toString("hex")}`;
+  await fs.promises.cp(dir, target, { recursive: true, errorOnExist: true, force: false, verbatimSymlinks: true });
+  return target;
+}
+
+/**
+ * Rewrite agent IDs embedded in message metadata (activity events reference
+ * the agents they came from)
+ */
+function remapAgentIds(metadata: string | null, agentIds: Map<string, string>): string | null {
+  if (!metadata || agentIds.size === 0) return metadata;
+  let remapped = metadata;
+  for (const [from, to] of agentIds) remapped = remapped.split(from).join(to);
+  return remapped;
+}
+
+type PhaseRow = {
+  status: string;
+  assignedTo: string | null;
+  result: string | null;
+  blockedBy: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  updatedAt: Date;
+};
+
+/**
+ * A phase as it stood at the cutoff. One changed since is rolled back using
+ * its start and completion times; a block set before the cutoff and cleared
+ * after it can't be told apart from no block at all, so it's dropped.
+ */
+function phaseAtCutoff<T extends PhaseRow>(phase: T, cutoff: Date): T {
+  if (phase.updatedAt <= cutoff) return phase;
+  const started = !!phase.startedAt && phase.startedAt <= cutoff;
+  const completed = !!phase.completedAt && phase.completedAt <= cutoff;
+  return {
+    ...phase,
+    status: completed ? "completed" : started ? "in_progress" : "pending",
+    assignedTo: started ? phase.assignedTo : null,
+    result: completed ? phase.result : null,
+    blockedBy: null,
+    startedAt: started ? phase.startedAt : null,
+    completedAt: completed ? phase.completedAt : null,
+  };
+}
+
+/**
+ * Fork a conversation at a message. Returns the new conversation's ID.
+ */
+export async function forkConversation(
+  conversationId: string,
+  messageId: string,
+  options: ForkOptions = {}
+): Promise<string> {
+  const source = await prisma.conversation.findUnique({ where: { id: conversationId } });
+  if (!source) throw new Error("Conversation not found");
+
+  const forkPoint = await prisma.message.findUnique({ where: { id: messageId } });
+  if (!forkPoint || forkPoint.conversationId !== conversationId) {
+    throw new Error("Message not found in this conversation");
+  }
+  const cutoff = forkPoint.createdAt;
+
+  let workingDirectory = source.workingDirectory;
+  if (options.copyWorkingDirectory) {
+    if (!source.workingDirectory) throw new Error("Conversation has no working directory to copy");
+    workingDirectory = await copyWorkingDirectory(source.workingDirectory);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const fork = await tx.conversation.create({
+        data: {
+          title: `${source.title.slice(0, 92)} (fork)`,
+          status: "completed",
+          workingDirectory,
+          budget: source.budget,
+          policy: source.policy,
+          priority: source.priority,
+          forkedFromId: source.id,
+          forkMessageId: forkPoint.id,
+        },
+      });
+
+      // Dynamic org: copy the agents first so everything else can point at the copies
+      const agents = await tx.agent.findMany({
+        where: { conversationId, isDynamic: true },
+        include: { outgoingRels: true },
+        orderBy: { orderIndex: "asc" },
+      });
+      const agentIds = new Map<string, string>();
+      for (const agent of agents) {
+        const copy = await tx.agent.create({
+          data: {
+            name: agent.name,
+            role: agent.role,
+            specialty: agent.specialty,
+            systemPrompt: agent.systemPrompt,
+            model: agent.model,
+            providerId: agent.providerId,
+            posX: agent.posX,
+            posY: agent.posY,
+            orderIndex: agent.orderIndex,
+            isDynamic: true,
+            conversationId: fork.id,
+            policy: agent.policy,
+            toolPolicy: agent.toolPolicy,
+            orgTemplateId: agent.orgTemplateId,
+          },
+        });
+        agentIds.set(agent.id, copy.id);
+      }
+      const mapAgent = (id: string | null) => (id ? agentIds.get(id) ?? id : null);
+
+      for (const agent of agents) {
+        if (agent.parentId && agentIds.has(agent.parentId)) {
+          await tx.agent.update({
+            where: { id: agentIds.get(agent.id)! },
+            data: { parentId: agentIds.get(agent.parentId) },
+          });
+        }
+        for (const rel of agent.outgoingRels) {
+          if (!agentIds.has(rel.toAgentId)) continue;
+          await tx.relationship.create({
+            data: {
+              fromAgentId: agentIds.get(rel.fromAgentId)!,
+              toAgentId: agentIds.get(rel.toAgentId)!,
+              action: rel.action,
+              cardinality: rel.cardinality,
+            },
+          });
+        }
+      }
+
+      // Transcript up to and including the fork point, activity included
+      const messages = await tx.message.findMany({
+        where: { conversationId, createdAt: { lte: cutoff } },
+        orderBy: { createdAt: "asc" },
+      });
+      for (const message of messages) {
+        await tx.message.create({
+          data: {
+            conversationId: fork.id,
+            agentId: mapAgent(message.agentId),
+            role: message.role,
+            content: message.content,
+            metadata: remapAgentIds(message.metadata, agentIds),
+            createdAt: message.createdAt,
+          },
+        });
+      }
+
+      const progress = await tx.projectProgress.findUnique({
+        where: { conversationId },
+        include: { phases: true, fileChanges: true, decisions: true, checkpoints: true },
+      });
+      const atCutoff = <T extends { createdAt: Date }>(rows: T[]) => rows.filter((r) => r.createdAt <= cutoff);
+      const lastCheckpoint = progress
+        ? atCutoff(progress.checkpoints).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0]
+        : undefined;
+
+      // Agent contexts as of the fork point. A context rewritten since then
+      // falls back to the last checkpoint's copy, or is left out so the
+      // fork's agent starts without one.
+      const checkpointSummaries = new Map(
+        (lastCheckpoint?.agentContexts
+          ? (JSON.parse(lastCheckpoint.agentContexts) as Array<{ agentId: string; summary: string }>)
+          : []
+        ).map((c) => [c.agentId, c.summary])
+      );
+      const contexts = await tx.agentContext.findMany({
+        where: { conversationId, createdAt: { lte: cutoff } },
+      });
+      for (const context of contexts) {
+        const summary = context.updatedAt <= cutoff ? context.summary : checkpointSummaries.get(context.agentId);
+        if (summary === undefined) continue;
+        await tx.agentContext.create({
+          data: {
+            conversationId: fork.id,
+            agentId: mapAgent(context.agentId)!,
+            summary,
+          },
+        });
+      }
+
+      if (progress && progress.createdAt <= cutoff) {
+        const phases = atCutoff(progress.phases).map((phase) => phaseAtCutoff(phase, cutoff));
+        // Unchanged since the fork point: the project row can be taken as is
+        const unchanged = progress.updatedAt <= cutoff;
+        const latestStarted = phases
+          .filter((p) => p.startedAt)
+          .sort((a, b) => b.startedAt!.getTime() - a.startedAt!.getTime())[0];
+        const copy = await tx.projectProgress.create({
+          data: {
+            conversationId: fork.id,
+            projectName: progress.projectName,
+            objective: progress.objective,
+            currentPhase: unchanged
+              ? progress.currentPhase
+              : latestStarted?.name ?? lastCheckpoint?.currentPhase ?? "planning",
+            overallStatus: unchanged ? progress.overallStatus : "in_progress",
+            totalPhases: unchanged ? progress.totalPhases : phases.length,
+            completedPhases: phases.filter((p) => p.status === "completed").length,
+            startedAt: progress.startedAt,
+            lastActiveAt: unchanged ? progress.lastActiveAt : cutoff,
+            completedAt: progress.completedAt && progress.completedAt <= cutoff ? progress.completedAt : null,
+          },
+        });
+
+        // File changes and decisions point at phases, which get new IDs
+        const phaseIds = new Map<string, string>();
+        for (const { id, progressId: _progressId, updatedAt: _updatedAt, ...phase } of phases) {
+          const phaseCopy = await tx.progressPhase.create({ data: { ...phase, progressId: copy.id } });
+          phaseIds.set(id, phaseCopy.id);
+        }
+        const mapPhase = (id: string | null) => (id ? phaseIds.get(id) ?? null : null);
+
+        for (const { id: _id, progressId: _progressId, phaseId, agentId, ...change } of atCutoff(progress.fileChanges)) {
+          await tx.fileChange.create({
+            data: { ...change, agentId: mapAgent(agentId), phaseId: mapPhase(phaseId), progressId: copy.id },
+          });
+        }
+        for (const { id: _id, progressId: _progressId, phaseId, ...decision } of atCutoff(progress.decisions)) {
+          await tx.decision.create({ data: { ...decision, phaseId: mapPhase(phaseId), progressId: copy.id } });
+        }
+        for (const { id: _id, progressId: _progressId, agentContexts, ...checkpoint } of atCutoff(progress.checkpoints)) {
+          await tx.checkpoint.create({
+            data: { ...checkpoint, agentContexts: remapAgentIds(agentContexts, agentIds), progressId: copy.id },
+          });
+        }
+      }
+
+      return fork.id;
+    }, { timeout: 60_000 });
+  } catch (err) {
+    // Don't leave an orphaned directory copy behind
+    if (workingDirectory && workingDirectory !== source.workingDirectory) {
+      await fs.promises.rm(workingDirectory, { recursive: true, force: true }).catch(() => {});
+    }
+    throw err;
+  }
+}
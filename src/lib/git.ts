@@ -0,0 +1,430 @@
+/**
+ * Git Integration
+ *
+ * When a conversation's working directory is a git repository, its work
+ * happens on a branch of its own (agentmafia/<title>-<id>), created from
+ * whatever was checked out when the conversation first ran. After each agent
+ * finishes a step, anything it changed is committed with the agent as author
+ * and its task as the message, giving a reviewable who-changed-what history.
+ *
+ * Agents of one conversation share the directory, so when several work in
+ * parallel a commit can include a sibling's in-progress edits; commits are
+ * serialized per directory so they never interleave.
+ *
+ * Checkpoints snapshot the working tree as commits kept under
+ * refs/agentmafia/checkpoints/, built with a throwaway index so neither the
+ * branch nor anything staged is touched. Isolated workspaces for parallel
+ * agents are worktrees checked out from such a snapshot.
+ */
+
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { prisma } from "./db";
+
+const GIT_TIMEOUT_MS = 30_000;
+const BRANCH_PREFIX = "agentmafia/";
+// Snapshot commits are kept reachable under refs/agentmafia/<name>
+const SNAPSHOT_REF_PREFIX = "refs/agentmafia/";
+const COMMIT_EMAIL = "agentmafia@localhost";
+// Commits are made by the app, whatever identity the repo has configured
+const COMMIT_IDENTITY = ["-c", "user.name=Agent Mafia", "-c", `user.email=${COMMIT_EMAIL}`];
+
+export interface AgentCommit {
+  sha: string;
+  branch: string;
+  message: string;
+  filesChanged: number;
+}
+
+/**
+ * Run git in a directory and return its trimmed stdout
+ */
+export function git(cwd: string, args: string[], env?: Record<string, string>): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const options = { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024, env: env ? { ...process.env, ...env } : undefined };
+    execFile("git", args, options, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+  });
+}
+
+export async function isGitRepo(dir: string): Promise<boolean> {
+  try {
+    return (await git(dir, ["rev-parse", "--is-inside-work-tree"])) === "true";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checked-out branch, or null when HEAD is detached
+ */
+async function currentBranch(dir: string): Promise<string | null> {
+  // symbolic-ref also works in a fresh repo with no commits yet
+  return git(dir, ["symbolic-ref", "--short", "-q", "HEAD"]).catch(() => null);
+}
+
+async function changedFiles(dir: string): Promise<string[]> {
+  const status = await git(dir, ["status", "--porcelain"]);
+  return status ? status.split("\n") : [];
+}
+
+function branchNameFor(conversationId: string, title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40)
+    .replace(/-+$/, "");
+  return `${BRANCH_PREFIX}${slug || "task"}-${conversationId.slice(-8)}`;
+}
+
+// Per-directory queue so git operations on one checkout never overlap
+const directoryLocks = new Map<string, Promise<unknown>>();
+
+function withDirectoryLock<T>(dir: string, fn: () => Promise<T>): Promise<T> {
+  const previous = directoryLocks.get(dir) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  directoryLocks.set(dir, next);
+  next.finally(() => {
+    if (directoryLocks.get(dir) === next) directoryLocks.delete(dir);
+  }).catch(() => {});
+  return next;
+}
+
+/**
+ * Make sure the conversation's branch exists and is checked out. Creates it
+ * on first use. Refuses to switch branches while the directory has
+ * uncommitted changes - those are the user's, and would otherwise be carried
+ * onto the branch and end up in an agent's commit. Returns the branch, or
+ * null if the directory isn't a git repository.
+ */
+export async function ensureConversationBranch(conversationId: string, workingDirectory: string): Promise<string | null> {
+  if (!(await isGitRepo(workingDirectory))) return null;
+
+  return withDirectoryLock(workingDirectory, async () => {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: { title: true, gitBranch: true },
+    });
+    if (!conversation) throw new Error("Conversation not found");
+
+    const current = await currentBranch(workingDirectory);
+    if (conversation.gitBranch && current === conversation.gitBranch) {
+      return conversation.gitBranch;
+    }
+
+    const dirty = await changedFiles(workingDirectory);
+    if (dirty.length > 0) {
+      throw new Error(
+        `${workingDirectory} has ${dirty.length} uncommitted change(s); commit or stash them before agents switch it to ${conversation.gitBranch ?? "a conversation branch"}`
+      );
+    }
+
+    if (conversation.gitBranch) {
+      await git(workingDirectory, ["checkout", conversation.gitBranch]);
+      return conversation.gitBranch;
+    }
+
+    const base = current ?? (await git(workingDirectory, ["rev-parse", "--short", "HEAD"]));
+    const branch = branchNameFor(conversationId, conversation.title);
+    await git(workingDirectory, ["checkout", "-b", branch]);
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { gitBranch: branch, gitBaseBranch: base },
+    });
+    console.log(`[Git] Conversation ${conversationId} works on branch ${branch} (from ${base})`);
+    return branch;
+  });
+}
+
+/**
+ * Commit everything changed in the directory onto the conversation's branch
+ * and record it. Callers hold the directory lock.
+ */
+async function commitOnConversationBranch({
+  conversationId,
+  workingDirectory,
+  agentId,
+  authorName,
+  subject,
+  body,
+}: {
+  conversationId: string;
+  workingDirectory: string;
+  agentId: string | null;
+  authorName: string;
+  subject: string;
+  body: string;
+}): Promise<AgentCommit | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { gitBranch: true },
+  });
+  const branch = conversation?.gitBranch;
+  if (!branch) return null;
+
+  // Someone switched the checkout away (another conversation, or by hand)
+  const current = await currentBranch(workingDirectory);
+  if (current !== branch) {
+    console.warn(`[Git] ${workingDirectory} is on ${current ?? "a detached HEAD"}, not ${branch}; not committing ${authorName}'s changes`);
+    return null;
+  }
+
+  const files = await changedFiles(workingDirectory);
+  if (files.length === 0) return null;
+
+  await git(workingDirectory, ["add", "-A"]);
+  await git(workingDirectory, [
+    ...COMMIT_IDENTITY,
+    "commit",
+    "--no-verify",
+    `--author=${authorName.replace(/[<>]/g, "")} <${COMMIT_EMAIL}>`,
+    "-m",
+    subject,
+    "-m",
+    body,
+  ]);
+  const sha = await git(workingDirectory, ["rev-parse", "HEAD"]);
+
+  await prisma.gitCommit.create({
+    data: { conversationId, agentId, agentName: authorName, branch, sha, message: subject, filesChanged: files.length },
+  });
+  return { sha, branch, message: subject, filesChanged: files.length };
+}
+
+/**
+ * Commit whatever an agent changed on the conversation's branch. Returns the
+ * commit, or null if there was nothing to commit (or no branch to commit to).
+ */
+export async function commitAgentChanges({
+  conversationId,
+  workingDirectory,
+  agentId,
+  agentName,
+  task,
+}: {
+  conversationId: string;
+  workingDirectory: string;
+  agentId: string;
+  agentName: string;
+  task: string;
+}): Promise<AgentCommit | null> {
+  const firstLine = task.split("\n").find((l) => l.trim())?.trim() ?? "";
+  return withDirectoryLock(workingDirectory, () =>
+    commitOnConversationBranch({
+      conversationId,
+      workingDirectory,
+      agentId,
+      authorName: agentName,
+      subject: `${agentName}: ${firstLine.length > 72 ? `${firstLine.slice(0, 69)}...` : firstLine}`,
+      body: `${task.slice(0, 4000)}\n\nConversation: ${conversationId}\nAgent: ${agentName} (${agentId})`,
+    })
+  );
+}
+
+// ==================== CHECKPOINT SNAPSHOTS ====================
+
+/**
+ * Run fn with GIT_INDEX_FILE pointing at a throwaway index, so snapshots and
+ * restores never disturb what the user has staged
+ */
+async function withTemporaryIndex<T>(fn: (env: Record<string, string>) => Promise<T>): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "agentmafia-index-"));
+  try {
+    return await fn({ GIT_INDEX_FILE: path.join(dir, "index") });
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Record the working tree (tracked and untracked files, minus ignored ones)
+ * as a commit without touching the branch, index or files. The commit is
+ * kept under refs/agentmafia/<refName>. Returns its SHA.
+ */
+export async function snapshotWorkingTree(workingDirectory: string, refName: string, message: string): Promise<string> {
+  return withDirectoryLock(workingDirectory, () =>
+    withTemporaryIndex(async (env) => {
+      const head = await git(workingDirectory, ["rev-parse", "-q", "--verify", "HEAD"]).catch(() => null);
+      if (head) await git(workingDirectory, ["read-tree", head], env);
+      await git(workingDirectory, ["add", "-A"], env);
+      const tree = await git(workingDirectory, ["write-tree"], env);
+      const sha = await git(workingDirectory, [
+        ...COMMIT_IDENTITY,
+        "commit-tree",
+        tree,
+        ...(head ? ["-p", head] : []),
+        "-m",
+        message,
+      ]);
+      await git(workingDirectory, ["update-ref", `${SNAPSHOT_REF_PREFIX}${refName}`, sha]);
+      return sha;
+    })
+  );
+}
+
+/**
+ * Make the working tree match a snapshot commit: its files are written back
+ * and files it didn't have (other than ignored ones) are removed. The branch
+ * and index are left alone, so the rollback shows up as ordinary changes.
+ */
+export async function restoreWorkingTree(
+  workingDirectory: string,
+  sha: string
+): Promise<{ restored: number; removed: number }> {
+  return withDirectoryLock(workingDirectory, () =>
+    withTemporaryIndex(async (env) => {
+      await git(workingDirectory, ["cat-file", "-e", `${sha}^{commit}`]).catch(() => {
+        throw new Error(`Snapshot ${sha.slice(0, 8)} is not in the repository at ${workingDirectory}`);
+      });
+      // Snapshots cover the whole repository, as commits do
+      const root = await git(workingDirectory, ["rev-parse", "--show-toplevel"]);
+      const snapshotFiles = (await git(root, ["ls-tree", "-r", "-z", "--name-only", sha]))
+        .split("\0")
+        .filter(Boolean);
+      const currentFiles = (await git(root, ["ls-files", "-z", "-c", "-o", "--exclude-standard"]))
+        .split("\0")
+        .filter(Boolean);
+
+      await git(root, ["read-tree", sha], env);
+      await git(root, ["checkout-index", "-a", "-f"], env);
+
+      const keep = new Set(snapshotFiles);
+      let removed = 0;
+      for (const file of new Set(currentFiles)) {
+        if (keep.has(file)) continue;
+        await fs.rm(path.join(root, file), { force: true });
+        removed++;
+      }
+      return { restored: snapshotFiles.length, removed };
+    })
+  );
+}
+
+/**
+ * Commit a checkpoint restore on the conversation's branch, credited to the boss
+ */
+export async function commitCheckpointRestore(
+  conversationId: string,
+  workingDirectory: string,
+  checkpointName: string
+): Promise<AgentCommit | null> {
+  return withDirectoryLock(workingDirectory, () =>
+    commitOnConversationBranch({
+      conversationId,
+      workingDirectory,
+      agentId: null,
+      authorName: "Boss",
+      subject: `Restore checkpoint "${checkpointName.slice(0, 50)}"`,
+      body: `Conversation: ${conversationId}`,
+    })
+  );
+}
+
+// ==================== ISOLATED WORKSPACES ====================
+
+/**
+ * Run git and return raw stdout. Exit codes listed in allowExitCodes aren't
+ * treated as failures (git merge-file exits with the number of conflicts).
+ */
+function gitBuffer(cwd: string, args: string[], allowExitCodes: number[] = []): Promise<{ stdout: Buffer; exitCode: number }> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 100 * 1024 * 1024, encoding: "buffer" },
+      (error, stdout, stderr) => {
+        const exitCode = typeof error?.code === "number" ? error.code : error ? -1 : 0;
+        if (error && !allowExitCodes.includes(exitCode)) {
+          reject(new Error(`git ${args[0]} failed: ${stderr.toString().trim() || error.message}`));
+          return;
+        }
+        resolve({ stdout, exitCode });
+      }
+    );
+  });
+}
+
+/**
+ * Drop a snapshot ref made by snapshotWorkingTree
+ */
+export async function deleteSnapshotRef(workingDirectory: string, refName: string): Promise<void> {
+  await git(workingDirectory, ["update-ref", "-d", `${SNAPSHOT_REF_PREFIX}${refName}`]);
+}
+
+/**
+ * Contents of a file (relative to workingDirectory) in a commit, or null if
+ * the commit doesn't have it
+ */
+export async function showFileAt(workingDirectory: string, sha: string, relativePath: string): Promise<Buffer | null> {
+  const exists = await git(workingDirectory, ["cat-file", "-e", `${sha}:./${relativePath}`]).then(() => true, () => false);
+  if (!exists) return null;
+  return (await gitBuffer(workingDirectory, ["show", `${sha}:./${relativePath}`])).stdout;
+}
+
+/**
+ * Files under workingDirectory (relative to it) that differ from a commit,
+ * including untracked ones. Uses a throwaway index.
+ */
+export async function filesChangedSince(workingDirectory: string, sha: string): Promise<string[]> {
+  return withTemporaryIndex(async (env) => {
+    await git(workingDirectory, ["read-tree", sha], env);
+    await git(workingDirectory, ["add", "-A", "."], env);
+    const out = await git(workingDirectory, ["diff", "--cached", "--name-only", "--no-renames", "--relative", "-z", sha], env);
+    return out.split("\0").filter(Boolean);
+  });
+}
+
+/**
+ * Check out a commit into a new detached worktree at worktreePath. Returns
+ * the directory inside it matching workingDirectory (which may be a
+ * subdirectory of the repository).
+ */
+export async function addWorktree(workingDirectory: string, sha: string, worktreePath: string): Promise<string> {
+  const prefix = await git(workingDirectory, ["rev-parse", "--show-prefix"]);
+  await withDirectoryLock(workingDirectory, () =>
+    git(workingDirectory, ["worktree", "add", "--detach", worktreePath, sha])
+  );
+  return prefix ? path.join(worktreePath, prefix) : worktreePath;
+}
+
+export async function removeWorktree(workingDirectory: string, worktreePath: string): Promise<void> {
+  await withDirectoryLock(workingDirectory, () =>
+    git(workingDirectory, ["worktree", "remove", "--force", worktreePath])
+  );
+}
+
+/**
+ * Three-way merge of one file's contents with git merge-file. When both
+ * sides changed the same lines the result has conflict markers and clean
+ * is false.
+ */
+export async function mergeFileContents(
+  ours: Buffer,
+  base: Buffer,
+  theirs: Buffer,
+  labels: [string, string, string]
+): Promise<{ merged: Buffer; clean: boolean }> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "agentmafia-merge-"));
+  try {
+    const files = ["ours", "base", "theirs"].map((name) => path.join(dir, name));
+    await Promise.all([ours, base, theirs].map((content, i) => fs.writeFile(files[i], content)));
+    const { stdout, exitCode } = await gitBuffer(
+      dir,
+      ["merge-file", "-p", "-L", labels[0], "-L", labels[1], "-L", labels[2], ...files],
+      // Positive exit codes count conflicts (capped at 127)
+      Array.from({ length: 127 }, (_, i) => i + 1)
+    );
+    return { merged: stdout, clean: exitCode === 0 };
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
@@ -1,9 +1,16 @@
 import { createSdkMcpServer, type McpSdkServerConfigWithInstance } from "@anthropic-ai/claude-agent-sdk";
 import { z } from "zod";
+import { randomUUID } from "crypto";
 import { prisma } from "./db";
 import { escalationManager } from "./escalation";
 import { agentPool } from "./agent-pool";
 import { getProgressTracker } from "./progress-tracker";
+import { getCassette } from "./cassette";
+import { createWorkspace, mergeWorkspace, formatMergeReport, type Workspace, type MergeResult } from "./workspaces";
+import { takeConflictWarnings } from "./file-conflicts";
+import { resolveToolPolicy, checkToolUse } from "./tool-policy";
+import { gateToolUse } from "./approval-gate";
+import type { ProviderTool } from "./providers/types";
 
 interface McpToolContext {
   conversationId: string;
@@ -21,6 +28,7 @@ interface McpToolContext {
     agentInvocations?: Map<string, number>;
     workingDirectory?: string;
     signal?: AbortSignal;
+    parentAgentId?: string;
   }) => Promise<string>;
   emitActivity: (
     conversationId: string,
@@ -29,10 +37,101 @@ interface McpToolContext {
   ) => Promise<void>;
 }
 
+type ToolResult = { content: Array<{ type: "text"; text: string }> };
+
+interface AgentTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, z.ZodTypeAny>;
+  handler: (args: Record<string, unknown>, extra: unknown) => Promise<ToolResult>;
+}
+
+/**
+ * Tool set for non-Anthropic providers: JSON-schema definitions plus an executor
+ * that runs the same handlers the MCP server exposes to Claude agents.
+ */
+export interface ProviderToolset {
+  tools: ProviderTool[];
+  execute: (toolName: string, input: Record<string, unknown>) => Promise<{ content: string; isError: boolean }>;
+}
+
 export async function buildAgentMcpServer(
   agentId: string,
   context: McpToolContext
 ): Promise<McpSdkServerConfigWithInstance | null> {
+  const tools = await buildAgentTools(agentId, context);
+  if (tools.length === 0) return null;
+
+  return createSdkMcpServer({
+    name: "agentmafia",
+    version: "1.0.0",
+    tools: tools as Parameters<typeof createSdkMcpServer>[0]["tools"],
+  });
+}
+
+/**
+ * Build the orchestration tools for an agent running on a provider without MCP
+ * support (Kimi, OpenAI, local). Arguments are validated against the same zod
+ * schemas the MCP server uses before the handler runs.
+ */
+export async function buildAgentProviderTools(
+  agentId: string,
+  context: McpToolContext
+): Promise<ProviderToolset> {
+  const agentTools = await buildAgentTools(agentId, context);
+  const byName = new Map(agentTools.map((t) => [t.name, t]));
+
+  const tools: ProviderTool[] = agentTools.map((t) => {
+    const schema = z.toJSONSchema(z.object(t.inputSchema)) as {
+      properties?: Record<string, unknown>;
+      required?: string[];
+    };
+    return {
+      name: t.name,
+      description: t.description,
+      parameters: {
+        type: "object",
+        properties: schema.properties || {},
+        required: schema.required || [],
+      },
+    };
+  });
+
+  const execute: ProviderToolset["execute"] = async (toolName, input) => {
+    const tool = byName.get(toolName);
+    if (!tool) {
+      return {
+        content: `Unknown tool '${toolName}'. Available tools: ${[...byName.keys()].join(", ")}`,
+        isError: true,
+      };
+    }
+
+    const parsed = z.object(tool.inputSchema).safeParse(input);
+    if (!parsed.success) {
+      return {
+        content: `Invalid arguments for ${toolName}: ${parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ")}`,
+        isError: true,
+      };
+    }
+
+    try {
+      const result = await tool.handler(parsed.data as Record<string, unknown>, undefined);
+      return { content: result.content.map((c) => c.text).join("\n"), isError: false };
+    } catch (err) {
+      return {
+        content: `Tool error: ${err instanceof Error ? err.message : String(err)}`,
+        isError: true,
+      };
+    }
+  };
+
+  return { tools, execute };
+}
+
+async function buildAgentTools(
+  agentId: string,
+  context: McpToolContext
+): Promise<AgentTool[]> {
   const agent = await prisma.agent.findUnique({
     where: { id: agentId },
     include: {
@@ -41,14 +140,9 @@ export async function buildAgentMcpServer(
     },
   });
 
-  if (!agent) return null;
+  if (!agent) return [];
 
-  const tools: Array<{
-    name: string;
-    description: string;
-    inputSchema: Record<string, z.ZodTypeAny>;
-    handler: (args: Record<string, unknown>, extra: unknown) => Promise<{ content: Array<{ type: "text"; text: string }> }>;
-  }> = [];
+  const tools: AgentTool[] = [];
 
   const delegateRels = agent.outgoingRels.filter((r) => r.action === "delegate");
   const outgoingCollabRels = agent.outgoingRels.filter((r) => r.action === "collaborate");
@@ -79,10 +173,12 @@ ${targetDesc}`,
       inputSchema: {
         targets: z.array(z.string()).describe("Array of agent IDs to delegate to"),
         task: z.string().describe("The task description to delegate"),
+        isolate: z.boolean().optional().describe("Give each target its own copy of the working directory and merge their changes back when they report. Use when targets working in parallel may edit the same files."),
       },
       handler: async (args: Record<string, unknown>) => {
         const targets = args.targets as string[];
         const task = args.task as string;
+        const isolate = args.isolate === true && !!context.workingDirectory;
 
         const filteredTargets = targets.filter((t) => validIds.includes(t));
         if (filteredTargets.length === 0) {
@@ -97,31 +193,80 @@ ${targetDesc}`,
           agentId: agent.id,
           agentName: agent.name,
           tool: "delegate_task",
-          input: { targets: filteredTargets, task },
+          input: { targets: filteredTargets, task, isolate },
           targetAgents,
         });
 
+        // One private copy of the working directory per target
+        let workspaces: Workspace[] | null = null;
+        if (isolate) {
+          try {
+            workspaces = [];
+            for (const tid of filteredTargets) {
+              workspaces.push(await createWorkspace({
+                conversationId: context.conversationId,
+                sourceDir: context.workingDirectory!,
+                agentId: tid,
+                agentName: targetAgents.find((a) => a.id === tid)?.name || tid,
+              }));
+            }
+          } catch (err) {
+            return { content: [{ type: "text" as const, text: `[Error: Could not create isolated workspaces: ${err instanceof Error ? err.message : String(err)}]` }] };
+          }
+        }
+
         const results = await Promise.all(
-          filteredTargets.map((tid) =>
+          filteredTargets.map((tid, i) =>
             context.executeAgent({
               agentId: tid,
               task,
               conversationId: context.conversationId,
               depth: context.depth + 1,
               agentInvocations: context.agentInvocations,
-              workingDirectory: context.workingDirectory,
+              workingDirectory: workspaces ? workspaces[i].dir : context.workingDirectory,
               signal: context.signal,
+              parentAgentId: context.agentId,
             })
           )
         );
 
-        const combined = results
+        let combined = results
           .map((r, i) => {
             const name = targetAgents.find((a) => a.id === filteredTargets[i])?.name || filteredTargets[i];
             return `[Result from ${name}]:\n${r}`;
           })
           .join("\n\n");
 
+        // Bring each target's changes back into the shared directory, one at a time
+        if (workspaces) {
+          const merges: MergeResult[] = [];
+          for (const workspace of workspaces) {
+            try {
+              const merge = await mergeWorkspace(workspace, task);
+              merges.push(merge);
+              if (merge.commit) {
+                await context.emitActivity(context.conversationId, "git_commit", {
+                  agentId: merge.agentId,
+                  agentName: merge.agentName,
+                  ...merge.commit,
+                });
+              }
+              await context.emitActivity(context.conversationId, "workspace_merge", {
+                agentId: agent.id,
+                agentName: agent.name,
+                fromAgentId: merge.agentId,
+                fromAgentName: merge.agentName,
+                applied: merge.applied,
+                merged: merge.merged,
+                conflicts: merge.conflicts,
+              });
+            } catch (err) {
+              combined += `\n\n[Error merging ${workspace.agentName}'s workspace (${workspace.dir}): ${err instanceof Error ? err.message : String(err)}]`;
+            }
+          }
+          combined += `\n\n${formatMergeReport(merges, agent.role === "underboss" || agent.role === "tester")}`;
+        }
+
         await context.emitActivity(context.conversationId, "tool_result", {
           agentId: agent.id,
           agentName: agent.name,
@@ -189,6 +334,7 @@ ${targetDesc}`,
             agentInvocations: context.agentInvocations,
             workingDirectory: context.workingDirectory,
             signal: context.signal,
+            parentAgentId: context.agentId,
           });
         }
 
@@ -299,13 +445,13 @@ CRITICAL: After calling this tool, you MUST immediately call wait_for_messages a
 
   // Tester-specific tools for code execution and testing
   if (agent.role === "tester") {
-    const { executeCode } = await import("./sandbox");
+    const { executeCode, runBuild, parseBuildCommand, formatBuildStep, SANDBOX_NETWORK_SETTING } = await import("./sandbox");
     const { runTests } = await import("./test-runner");
     const { parseErrors } = await import("./error-parser");
 
     tools.push({
       name: "execute_code",
-      description: "Execute code in a sandboxed environment. Supports Python, TypeScript, and JavaScript. Returns stdout, stderr, exit code, and structured compilation errors if any.",
+      description: "Execute code in a sandboxed environment: a throwaway directory with memory, CPU time, file size, process and output limits, and no network unless the operator has allowed it. Supports Python, TypeScript, and JavaScript. Returns stdout, stderr, exit code, structured compilation errors if any, and the limits the code ran under.",
       inputSchema: {
         code: z.string().describe("The code to execute"),
         language: z.enum(["python", "typescript", "javascript"]).describe("The programming language"),
@@ -315,8 +461,10 @@ CRITICAL: After calling this tool, you MUST immediately call wait_for_messages a
         const code = args.code as string;
         const language = args.language as "python" | "typescript" | "javascript";
         const timeout = (args.timeout as number | undefined) || 30000;
+        const networkSetting = await prisma.setting.findUnique({ where: { key: SANDBOX_NETWORK_SETTING } });
+        const allowNetwork = networkSetting?.value === "on";
 
-        const result = await executeCode({ code, language, timeout });
+        const result = await executeCode({ code, language, timeout, allowNetwork });
 
         // Parse errors from stderr if execution failed
         const errors = result.exitCode !== 0 && result.stderr
@@ -328,6 +476,8 @@ CRITICAL: After calling this tool, you MUST immediately call wait_for_messages a
           stderr: result.stderr,
           exitCode: result.exitCode,
           errors: errors.length > 0 ? errors : undefined,
+          outputTruncated: result.outputTruncated,
+          limits: result.limits,
         };
 
         await context.emitActivity(context.conversationId, "tool_result", {
@@ -343,21 +493,77 @@ CRITICAL: After calling this tool, you MUST immediately call wait_for_messages a
 
     tools.push({
       name: "run_build",
-      description: "Run a build command (e.g., 'npm run build', 'tsc --noEmit', 'npx eslint .') in the working directory. Returns structured compilation errors with file, line, column, and message.",
+      description: "Run a build command (e.g., 'npm run build', 'tsc --noEmit', 'npx eslint .') in the project's working directory. Quotes, VAR=value prefixes and && chains work; pipes, redirects and $VARIABLES don't (use env, or a package.json script). Returns structured compilation errors with file, line, column, and message.",
       inputSchema: {
-        command: z.string().describe("The build command to execute (e.g., 'npm run build', 'tsc --noEmit')"),
+        command: z.string().describe("The build command to execute (e.g., 'npm run build', 'npm ci && tsc --noEmit')"),
+        env: z.record(z.string(), z.string()).optional().describe("Optional environment variables to set for the build (e.g., { \"NODE_ENV\": \"production\" })"),
         timeout: z.number().optional().describe("Optional timeout in milliseconds (default: 60000)"),
       },
       handler: async (args: Record<string, unknown>) => {
         const command = args.command as string;
+        const env = args.env as Record<string, string> | undefined;
         const timeout = (args.timeout as number | undefined) || 60000;
+        const workingDirectory = context.workingDirectory || process.cwd();
 
-        const result = await executeCode({
-          code: "",
-          language: "build",
-          buildCommand: command,
-          timeout,
-        });
+        // Each step is a shell command as far as the agent's Bash policy and the
+        // approval gate go - as an MCP tool, run_build would get past both. The
+        // env overrides are part of it (NODE_OPTIONS, PATH... can run anything)
+        const toolPolicy = resolveToolPolicy(agent.role, agent.toolPolicy);
+        for (const step of parseBuildCommand(command).steps ?? []) {
+          const toolInput = { command: formatBuildStep({ ...step, env: { ...env, ...step.env } }) };
+          const denied = checkToolUse(toolPolicy, "Bash", toolInput, workingDirectory);
+          if (denied) {
+            context.emitActivity(context.conversationId, "tool_denied", {
+              agentId: agent.id,
+              agentName: agent.name,
+              tool: "run_build",
+              input: toolInput,
+              reason: denied,
+            }).catch(console.error);
+          }
+          const refused = denied ?? await gateToolUse({
+            conversationId: context.conversationId,
+            agentId: agent.id,
+            agentName: agent.name,
+            toolName: "Bash",
+            toolInput,
+            workingDirectory,
+            signal: context.signal,
+            emitActivity: context.emitActivity,
+          });
+          if (refused) {
+            return { content: [{ type: "text" as const, text: `[Error: Build not run - "${toolInput.command}": ${refused}]` }] };
+          }
+        }
+
+        const buildId = randomUUID();
+        const event = { buildId, agentId: agent.id, agentName: agent.name, command };
+
+        // Stream output to the UI at most once a second
+        const pending = { stdout: "", stderr: "" };
+        const flush = () => {
+          if (!pending.stdout && !pending.stderr) return;
+          void context.emitActivity(context.conversationId, "build_progress", { ...event, ...pending });
+          pending.stdout = "";
+          pending.stderr = "";
+        };
+        const ticker = setInterval(flush, 1000);
+
+        let result;
+        try {
+          result = await runBuild({
+            command,
+            workingDirectory,
+            env,
+            timeout,
+            onOutput: (stream, text) => {
+              pending[stream] += text;
+            },
+          });
+        } finally {
+          clearInterval(ticker);
+        }
+        flush();
 
         // Parse compilation errors from output
         const errors = parseErrors(result.stderr || result.stdout);
@@ -369,8 +575,18 @@ CRITICAL: After calling this tool, you MUST immediately call wait_for_messages a
           exitCode: result.exitCode,
           compilationErrors: errors.length > 0 ? errors : undefined,
           errorCount: errors.length,
+          outputTruncated: result.outputTruncated,
+          limits: result.limits,
         };
 
+        await context.emitActivity(context.conversationId, "build_complete", {
+          ...event,
+          success: result.exitCode === 0,
+          exitCode: result.exitCode,
+          output: result.stdout,
+          errors: result.stderr,
+        });
+
         await context.emitActivity(context.conversationId, "tool_result", {
           agentId: agent.id,
           agentName: agent.name,
@@ -438,11 +654,12 @@ CRITICAL: After calling this tool, you MUST immediately call wait_for_messages a
 - "completePhase": Mark a phase as completed (phaseName, result)
 - "blockPhase": Mark a phase as blocked (phaseName, blockedBy)
 - "addDecision": Record a key decision (topic, question, decision, rationale, madeBy)
-- "recordFileChange": Record a file modification (filePath, changeType: created|modified|deleted, description)
+
+File changes are detected and recorded automatically after each agent's turn.
 
 This helps maintain continuity across multiple sessions and prevents losing track of progress.`,
       inputSchema: {
-        action: z.enum(["startPhase", "completePhase", "blockPhase", "addDecision", "recordFileChange"]).describe("The type of progress update"),
+        action: z.enum(["startPhase", "completePhase", "blockPhase", "addDecision"]).describe("The type of progress update"),
         phaseName: z.string().optional().describe("Phase name (for phase actions)"),
         assignedTo: z.string().optional().describe("Agent assigned to this phase"),
         result: z.string().optional().describe("Result summary (for completePhase)"),
@@ -452,9 +669,6 @@ This helps maintain continuity across multiple sessions and prevents losing trac
         decision: z.string().optional().describe("The decision made"),
         rationale: z.string().optional().describe("Why this decision was made"),
         madeBy: z.string().optional().describe("Who made the decision"),
-        filePath: z.string().optional().describe("File path (for recordFileChange)"),
-        changeType: z.enum(["created", "modified", "deleted"]).optional().describe("Type of file change"),
-        description: z.string().optional().describe("Description of the change"),
       },
       handler: async (args: Record<string, unknown>) => {
         const action = args.action as string;
@@ -525,27 +739,6 @@ This helps maintain continuity across multiple sessions and prevents losing trac
               return { content: [{ type: "text" as const, text: `Decision recorded: "${topic}" → ${decision}` }] };
             }
 
-            case "recordFileChange": {
-              const { filePath, changeType, description: desc } = args as Record<string, string | undefined>;
-              if (!filePath || !changeType || !desc) {
-                return { content: [{ type: "text" as const, text: "[Error: filePath, changeType, and description required for recordFileChange]" }] };
-              }
-              await tracker.recordFileChange({
-                filePath,
-                changeType: changeType as "created" | "modified" | "deleted",
-                description: desc,
-                agentName: agent.name,
-              });
-              await context.emitActivity(context.conversationId, "progress_update", {
-                agentId: agent.id,
-                agentName: agent.name,
-                action: "recordFileChange",
-                filePath,
-                changeType,
-              });
-              return { content: [{ type: "text" as const, text: `File change recorded: [${changeType}] ${filePath}` }] };
-            }
-
             default:
               return { content: [{ type: "text" as const, text: `[Unknown action: ${action}]` }] };
           }
@@ -645,7 +838,12 @@ The checkpoint saves: current phase states, pending tasks, and a comprehensive c
           agentName: agent.name,
         });
 
-        const answer = await escalationManager.waitForAnswer(escalation.id);
+        // On cassette replay the boss's recorded answer comes back straight away
+        const cassette = getCassette();
+        const answer = cassette?.mode === "replay"
+          ? cassette.next(agent.name, "escalations").answer
+          : await escalationManager.waitForAnswer(escalation.id);
+        if (cassette?.mode === "record") cassette.record(agent.name, "escalations", { question, answer });
 
         await prisma.escalation.update({
           where: { id: escalation.id },
@@ -661,11 +859,19 @@ The checkpoint saves: current phase states, pending tasks, and a comprehensive c
     });
   }
 
-  if (tools.length === 0) return null;
-
-  return createSdkMcpServer({
-    name: "agentmafia",
-    version: "1.0.0",
-    tools: tools as Parameters<typeof createSdkMcpServer>[0]["tools"],
-  });
+  // Write conflicts detected since the agent's last tool call ride along with the next result
+  return tools.map((tool) => ({
+    ...tool,
+    handler: async (args, extra) => {
+      const result = await tool.handler(args, extra);
+      const warnings = takeConflictWarnings(context.conversationId, agentId);
+      if (warnings.length === 0) return result;
+      return {
+        content: [
+          ...result.content,
+          ...warnings.map((w) => ({ type: "text" as const, text: `[WARNING: File conflict] ${w}` })),
+        ],
+      };
+    },
+  }));
 }
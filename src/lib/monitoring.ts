@@ -64,7 +64,7 @@ export async function collectMetrics(): Promise<SystemMetrics> {
 
   // Get provider circuit breaker states
   const providerStates: SystemMetrics["providers"] = {};
-  for (const providerId of ["anthropic", "kimi", "openai"]) {
+  for (const providerId of ["anthropic", "kimi", "openai", "local"]) {
     const breaker = getCircuitBreaker(providerId);
     providerStates[providerId] = {
       state: breaker.getState(),
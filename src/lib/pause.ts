@@ -0,0 +1,119 @@
+/**
+ * Conversation Pause Gates
+ *
+ * Pausing doesn't tear anything down - agents stay in the pool with their
+ * contexts and mailboxes. Instead, every point where work would move forward
+ * (starting a delegated agent, a model turn, a tool call) waits on the
+ * conversation's gate until it reopens. Time spent paused doesn't count
+ * against orchestration or per-agent timeouts.
+ */
+
+interface PauseGate {
+  pausedAt: number | null;
+  // Total paused time from completed pauses
+  pausedMs: number;
+  waiters: Set<() => void>;
+}
+
+const gates = new Map<string, PauseGate>();
+
+function getGate(conversationId: string): PauseGate {
+  let gate = gates.get(conversationId);
+  if (!gate) {
+    gate = { pausedAt: null, pausedMs: 0, waiters: new Set() };
+    gates.set(conversationId, gate);
+  }
+  return gate;
+}
+
+export function isPaused(conversationId: string): boolean {
+  return gates.get(conversationId)?.pausedAt != null;
+}
+
+/**
+ * Close the gate. Returns false if the conversation was already paused.
+ */
+export function pauseGate(conversationId: string): boolean {
+  const gate = getGate(conversationId);
+  if (gate.pausedAt != null) return false;
+  gate.pausedAt = Date.now();
+  return true;
+}
+
+/**
+ * Reopen the gate and release everything waiting on it. Returns false if the
+ * conversation wasn't paused.
+ */
+export function resumeGate(conversationId: string): boolean {
+  const gate = gates.get(conversationId);
+  if (!gate || gate.pausedAt == null) return false;
+  gate.pausedMs += Date.now() - gate.pausedAt;
+  gate.pausedAt = null;
+  for (const wake of gate.waiters) wake();
+  gate.waiters.clear();
+  return true;
+}
+
+/**
+ * Drop a conversation's gate when its orchestration ends, releasing any waiters
+ */
+export function clearPauseGate(conversationId: string): void {
+  const gate = gates.get(conversationId);
+  if (!gate) return;
+  for (const wake of gate.waiters) wake();
+  gates.delete(conversationId);
+}
+
+/**
+ * Resolve immediately unless the conversation is paused; otherwise wait until
+ * it's resumed or the signal aborts
+ */
+export function waitIfPaused(conversationId: string, signal?: AbortSignal): Promise<void> {
+  const gate = gates.get(conversationId);
+  if (!gate || gate.pausedAt == null || signal?.aborted) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const wake = () => {
+      gate.waiters.delete(wake);
+      signal?.removeEventListener("abort", wake);
+      resolve();
+    };
+    gate.waiters.add(wake);
+    signal?.addEventListener("abort", wake, { once: true });
+  });
+}
+
+/**
+ * Total time a conversation has spent paused, including a pause in progress
+ */
+export function getPausedMs(conversationId: string): number {
+  const gate = gates.get(conversationId);
+  if (!gate) return 0;
+  return gate.pausedMs + (gate.pausedAt != null ? Date.now() - gate.pausedAt : 0);
+}
+
+/**
+ * setTimeout that doesn't count paused time: when it fires, any time the
+ * conversation spent paused since it was armed is added back on. Returns a
+ * function that cancels it.
+ */
+export function setPauseAwareTimeout(conversationId: string, ms: number, onTimeout: () => void): () => void {
+  let credited = getPausedMs(conversationId);
+  let timer: ReturnType<typeof setTimeout>;
+
+  const arm = (delayMs: number) => {
+    timer = setTimeout(() => {
+      const owed = getPausedMs(conversationId) - credited;
+      if (owed > 0 || isPaused(conversationId)) {
+        credited += owed;
+        // Still paused: check again in a minute
+        arm(Math.max(owed, 60_000));
+        return;
+      }
+      onTimeout();
+    }, delayMs);
+  };
+  arm(ms);
+
+  return () => clearTimeout(timer);
+}
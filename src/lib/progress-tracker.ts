@@ -6,6 +6,8 @@
  */
 
 import { prisma } from "./db";
+import { captureFiles, restoreFiles, type CheckpointFiles } from "./checkpoint-files";
+import { commitCheckpointRestore } from "./git";
 
 // ==================== TYPES ====================
 
@@ -20,7 +22,28 @@ export interface FileChangeSpec {
   changeType: "created" | "modified" | "deleted";
   description: string;
   agentName?: string;
+  agentId?: string;
   phaseId?: string;
+  // Set for changes found by comparing directory snapshots
+  detected?: boolean;
+  diff?: string;
+  additions?: number;
+  deletions?: number;
+}
+
+export interface FileChangeEntry {
+  id: string;
+  filePath: string;
+  changeType: string;
+  description: string;
+  agentName: string | null;
+  agentId: string | null;
+  phase: string | null;
+  detected: boolean;
+  additions: number | null;
+  deletions: number | null;
+  hasDiff: boolean;
+  createdAt: Date;
 }
 
 export interface DecisionSpec {
@@ -38,6 +61,29 @@ export interface CheckpointSpec {
   pendingTasks: string[];
 }
 
+export interface CheckpointRestoreResult {
+  checkpointName: string;
+  // Null when the checkpoint has no file snapshot (or there's no working directory)
+  files: { restored: number; removed: number } | null;
+  phases: number;
+  agentContexts: number | null;
+  commit: string | null;
+}
+
+// Full phase state as captured by createCheckpoint. Older checkpoints only
+// have name, status and result.
+interface PhaseSnapshotEntry {
+  name: string;
+  status: string;
+  result: string | null;
+  description?: string;
+  orderIndex?: number;
+  assignedTo?: string | null;
+  blockedBy?: string | null;
+  startedAt?: string | null;
+  completedAt?: string | null;
+}
+
 export interface ProgressSummary {
   projectName: string;
   objective: string;
@@ -279,22 +325,104 @@ export class ProgressTracker {
   /**
    * Record a file change
    */
-  async recordFileChange(change: FileChangeSpec): Promise<void> {
+  async recordFileChange(change: FileChangeSpec): Promise<{ id: string } | null> {
     const progressId = await this.getProgressId();
-    if (!progressId) return;
+    if (!progressId) return null;
 
-    await prisma.fileChange.create({
+    return prisma.fileChange.create({
+      select: { id: true },
       data: {
         progressId,
         filePath: change.filePath,
         changeType: change.changeType,
         description: change.description,
         agentName: change.agentName,
+        agentId: change.agentId,
         phaseId: change.phaseId,
+        detected: change.detected ?? false,
+        diff: change.diff,
+        additions: change.additions,
+        deletions: change.deletions,
       },
     });
   }
 
+  /**
+   * The phase work is currently happening in: an in-progress phase, preferably
+   * one assigned to the given agent
+   */
+  async getActivePhaseId(agentName?: string): Promise<string | null> {
+    const progressId = await this.getProgressId();
+    if (!progressId) return null;
+
+    const phases = await prisma.progressPhase.findMany({
+      where: { progressId, status: "in_progress" },
+      orderBy: { startedAt: "desc" },
+      select: { id: true, assignedTo: true },
+    });
+    return (phases.find((p) => agentName && p.assignedTo === agentName) ?? phases[0])?.id ?? null;
+  }
+
+  /**
+   * All recorded file changes, newest first (without diffs)
+   */
+  async getFileChanges(): Promise<FileChangeEntry[]> {
+    const progressId = await this.getProgressId();
+    if (!progressId) return [];
+
+    const [changes, phases] = await Promise.all([
+      prisma.fileChange.findMany({
+        where: { progressId },
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          filePath: true,
+          changeType: true,
+          description: true,
+          agentName: true,
+          agentId: true,
+          phaseId: true,
+          detected: true,
+          additions: true,
+          deletions: true,
+          createdAt: true,
+        },
+      }),
+      prisma.progressPhase.findMany({ where: { progressId }, select: { id: true, name: true } }),
+    ]);
+    const withDiff = new Set(
+      (await prisma.fileChange.findMany({
+        where: { progressId, diff: { not: null } },
+        select: { id: true },
+      })).map((c) => c.id)
+    );
+    const phaseNames = new Map(phases.map((p) => [p.id, p.name]));
+
+    return changes.map((c) => ({
+      id: c.id,
+      filePath: c.filePath,
+      changeType: c.changeType,
+      description: c.description,
+      agentName: c.agentName,
+      agentId: c.agentId,
+      phase: c.phaseId ? phaseNames.get(c.phaseId) ?? null : null,
+      detected: c.detected,
+      additions: c.additions,
+      deletions: c.deletions,
+      hasDiff: withDiff.has(c.id),
+      createdAt: c.createdAt,
+    }));
+  }
+
+  /**
+   * One file change including its diff
+   */
+  async getFileChange(id: string) {
+    const progressId = await this.getProgressId();
+    if (!progressId) return null;
+    return prisma.fileChange.findFirst({ where: { id, progressId } });
+  }
+
   /**
    * Record a decision
    */
@@ -328,15 +456,30 @@ export class ProgressTracker {
       orderBy: { orderIndex: "asc" },
     });
 
-    const phaseSnapshot = phases.map((p) => ({
+    const phaseSnapshot: PhaseSnapshotEntry[] = phases.map((p) => ({
       name: p.name,
       status: p.status,
       result: p.result,
+      description: p.description,
+      orderIndex: p.orderIndex,
+      assignedTo: p.assignedTo,
+      blockedBy: p.blockedBy,
+      startedAt: p.startedAt?.toISOString() ?? null,
+      completedAt: p.completedAt?.toISOString() ?? null,
     }));
 
     // Build context summary
     const summary = await this.buildContextSummary();
 
+    const progress = await prisma.projectProgress.findUnique({
+      where: { id: progressId },
+      select: { currentPhase: true },
+    });
+    const agentContexts = await prisma.agentContext.findMany({
+      where: { conversationId: this.conversationId },
+      select: { agentId: true, summary: true },
+    });
+
     const checkpoint = await prisma.checkpoint.create({
       data: {
         progressId,
@@ -345,12 +488,167 @@ export class ProgressTracker {
         phaseSnapshot: JSON.stringify(phaseSnapshot),
         pendingTasks: JSON.stringify(spec.pendingTasks),
         contextSummary: summary,
+        currentPhase: progress?.currentPhase,
+        agentContexts: JSON.stringify(agentContexts),
       },
     });
 
+    // Snapshot the working directory so the checkpoint can be restored
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: this.conversationId },
+      select: { workingDirectory: true },
+    });
+    if (conversation?.workingDirectory) {
+      try {
+        const files = await captureFiles(conversation.workingDirectory, `checkpoints/${checkpoint.id}`, `Checkpoint: ${spec.name}`);
+        await prisma.checkpoint.update({
+          where: { id: checkpoint.id },
+          data: { files: JSON.stringify(files) },
+        });
+      } catch (err) {
+        console.warn(`[Progress] Could not snapshot files for checkpoint "${spec.name}":`, err);
+      }
+    }
+
     return checkpoint.id;
   }
 
+  /**
+   * All checkpoints, newest first
+   */
+  async listCheckpoints(): Promise<Array<{
+    id: string;
+    name: string;
+    description: string;
+    pendingTasks: string[];
+    hasFiles: boolean;
+    createdAt: Date;
+  }>> {
+    const progressId = await this.getProgressId();
+    if (!progressId) return [];
+
+    const checkpoints = await prisma.checkpoint.findMany({
+      where: { progressId },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, name: true, description: true, pendingTasks: true, files: true, createdAt: true },
+    });
+    return checkpoints.map((c) => ({
+      id: c.id,
+      name: c.name,
+      description: c.description,
+      pendingTasks: JSON.parse(c.pendingTasks) as string[],
+      hasFiles: c.files !== null,
+      createdAt: c.createdAt,
+    }));
+  }
+
+  /**
+   * Roll the conversation back to a checkpoint: the working directory's files,
+   * the progress phases and the agents' saved contexts. Don't call this while
+   * the conversation is running.
+   */
+  async restoreCheckpoint(checkpointId: string): Promise<CheckpointRestoreResult> {
+    const progressId = await this.getProgressId();
+    const checkpoint = progressId
+      ? await prisma.checkpoint.findFirst({ where: { id: checkpointId, progressId } })
+      : null;
+    if (!progressId || !checkpoint) throw new Error("Checkpoint not found");
+
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: this.conversationId },
+      select: { workingDirectory: true },
+    });
+
+    // Files first: if they can't be restored, nothing else changes
+    let files: CheckpointRestoreResult["files"] = null;
+    let commit: string | null = null;
+    if (checkpoint.files && conversation?.workingDirectory) {
+      files = await restoreFiles(conversation.workingDirectory, JSON.parse(checkpoint.files) as CheckpointFiles);
+      const restoreCommit = await commitCheckpointRestore(this.conversationId, conversation.workingDirectory, checkpoint.name)
+        .catch((err) => {
+          console.warn(`[Progress] Could not commit restore of checkpoint "${checkpoint.name}":`, err);
+          return null;
+        });
+      commit = restoreCommit?.sha ?? null;
+    }
+
+    const snapshot = JSON.parse(checkpoint.phaseSnapshot) as PhaseSnapshotEntry[];
+    const restoredContexts = checkpoint.agentContexts
+      ? (JSON.parse(checkpoint.agentContexts) as Array<{ agentId: string; summary: string }>)
+      : null;
+
+    await prisma.$transaction(async (tx) => {
+      // Phases keep their IDs where they still exist, so file changes and
+      // decisions stay linked; phases added since the checkpoint are dropped
+      const phases = await tx.progressPhase.findMany({ where: { progressId } });
+      const byName = new Map(phases.map((p) => [p.name, p]));
+      const keep = new Set<string>();
+      for (const [i, entry] of snapshot.entries()) {
+        const full = entry.description !== undefined;
+        const data = {
+          status: entry.status,
+          result: entry.result,
+          ...(full
+            ? {
+                description: entry.description,
+                orderIndex: entry.orderIndex ?? i,
+                assignedTo: entry.assignedTo ?? null,
+                blockedBy: entry.blockedBy ?? null,
+                startedAt: entry.startedAt ? new Date(entry.startedAt) : null,
+                completedAt: entry.completedAt ? new Date(entry.completedAt) : null,
+              }
+            : {}),
+        };
+        const existing = byName.get(entry.name);
+        if (existing) {
+          await tx.progressPhase.update({ where: { id: existing.id }, data });
+          keep.add(existing.id);
+        } else {
+          const created = await tx.progressPhase.create({
+            data: { progressId, name: entry.name, description: entry.description ?? "", orderIndex: i, ...data },
+          });
+          keep.add(created.id);
+        }
+      }
+      await tx.progressPhase.deleteMany({ where: { progressId, id: { notIn: [...keep] } } });
+
+      await tx.projectProgress.update({
+        where: { id: progressId },
+        data: {
+          totalPhases: snapshot.length,
+          completedPhases: snapshot.filter((p) => p.status === "completed").length,
+          ...(checkpoint.currentPhase ? { currentPhase: checkpoint.currentPhase } : {}),
+          overallStatus: "in_progress",
+          completedAt: null,
+          lastActiveAt: new Date(),
+        },
+      });
+
+      if (restoredContexts) {
+        await tx.agentContext.deleteMany({ where: { conversationId: this.conversationId } });
+        const agents = await tx.agent.findMany({
+          where: { id: { in: restoredContexts.map((c) => c.agentId) } },
+          select: { id: true },
+        });
+        const existingAgents = new Set(agents.map((a) => a.id));
+        for (const context of restoredContexts) {
+          if (!existingAgents.has(context.agentId)) continue;
+          await tx.agentContext.create({
+            data: { conversationId: this.conversationId, agentId: context.agentId, summary: context.summary },
+          });
+        }
+      }
+    });
+
+    return {
+      checkpointName: checkpoint.name,
+      files,
+      phases: snapshot.length,
+      agentContexts: restoredContexts?.length ?? null,
+      commit,
+    };
+  }
+
   /**
    * Get the latest checkpoint for resuming
    */
@@ -10,6 +10,7 @@ import {
   ProviderTool,
   ProviderToolCall,
   ProviderContentBlock,
+  ProviderStreamEvent,
 } from "./types";
 
 // Reuse the shared client from anthropic.ts
@@ -54,7 +55,25 @@ export class AnthropicProvider implements LLMProvider {
 
   async chat(request: ProviderRequest): Promise<ProviderResponse> {
     const client = this.getClient();
+    const response = await client.messages.create(this.buildRequest(request));
 
+    return this.parseResponse(response);
+  }
+
+  async *chatStream(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<ProviderStreamEvent> {
+    const client = this.getClient();
+    const stream = client.messages.stream(this.buildRequest(request), { signal });
+
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield { type: "text_delta", text: event.delta.text };
+      }
+    }
+
+    yield { type: "done", response: this.parseResponse(await stream.finalMessage()) };
+  }
+
+  private buildRequest(request: ProviderRequest): Anthropic.MessageCreateParamsNonStreaming {
     // Convert messages to Anthropic format
     const messages: Anthropic.MessageParam[] = request.messages
       .filter((m) => m.role !== "system")
@@ -73,7 +92,7 @@ export class AnthropicProvider implements LLMProvider {
       system = system ? `${system}\n${systemContent}` : systemContent;
     }
 
-    const anthropicRequest: Anthropic.MessageCreateParams = {
+    const anthropicRequest: Anthropic.MessageCreateParamsNonStreaming = {
       model: request.model,
       max_tokens: request.max_tokens || 8192,
       messages,
@@ -92,9 +111,7 @@ export class AnthropicProvider implements LLMProvider {
       anthropicRequest.stop_sequences = request.stop_sequences;
     }
 
-    const response = await client.messages.create(anthropicRequest);
-
-    return this.parseResponse(response);
+    return anthropicRequest;
   }
 
   private convertContent(
@@ -173,6 +190,8 @@ export class AnthropicProvider implements LLMProvider {
       usage: {
         inputTokens: response.usage.input_tokens,
         outputTokens: response.usage.output_tokens,
+        cacheReadTokens: response.usage.cache_read_input_tokens ?? 0,
+        cacheWriteTokens: response.usage.cache_creation_input_tokens ?? 0,
       },
       raw: response,
     };
@@ -7,3 +7,11 @@ export * from "./types";
 export * from "./router";
 export { anthropicProvider } from "./anthropic";
 export { kimiProvider } from "./kimi";
+export { openaiProvider } from "./openai";
+export { replayProvider } from "./replay";
+export {
+  localProvider,
+  normalizeLocalBaseUrl,
+  LOCAL_BASE_URL_SETTING,
+  LOCAL_API_KEY_SETTING,
+} from "./local";
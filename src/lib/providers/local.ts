@@ -0,0 +1,123 @@
+/**
+ * Local / self-hosted provider implementation
+ * Targets any OpenAI-compatible server (Ollama, llama.cpp, vLLM) at a
+ * base URL configured on the Settings page (stored in the Setting table)
+ *
+ * The discovered model list is stored too, so models the server reported
+ * still route here after a restart, before anything lists models again
+ */
+
+import { prisma } from "../db";
+import { OpenAIProvider } from "./openai";
+import type { ProviderId } from "./types";
+
+export const LOCAL_BASE_URL_SETTING = "localLlmBaseUrl";
+export const LOCAL_API_KEY_SETTING = "localLlmApiKey";
+// JSON { baseUrl, models } from the last successful discovery
+const LOCAL_MODELS_SETTING = "localLlmModels";
+
+/**
+ * Normalize a user-entered endpoint. Bare host URLs get the conventional /v1
+ * suffix (Ollama: http://localhost:11434, llama.cpp: :8080, vLLM: :8000).
+ * Returns null if the value is not an http(s) URL.
+ */
+export function normalizeLocalBaseUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const pathname = url.pathname.replace(/\/+$/, "");
+  return `${url.origin}${pathname || "/v1"}`;
+}
+
+export class LocalProvider extends OpenAIProvider {
+  id: ProviderId = "local";
+  name = "Local (OpenAI-compatible)";
+
+  private baseUrl: string | null = process.env.LOCAL_LLM_BASE_URL
+    ? normalizeLocalBaseUrl(process.env.LOCAL_LLM_BASE_URL)
+    : null;
+  private apiKey: string | null = process.env.LOCAL_LLM_API_KEY || null;
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  getModels(): string[] {
+    // No static list - whatever the server has pulled/loaded
+    return this.discoveredModels || [];
+  }
+
+  /**
+   * Reload endpoint settings from the database. Settings override env vars.
+   */
+  async loadConfig(): Promise<void> {
+    const settings = await prisma.setting.findMany({
+      where: { key: { in: [LOCAL_BASE_URL_SETTING, LOCAL_API_KEY_SETTING, LOCAL_MODELS_SETTING] } },
+    });
+    const byKey = new Map(settings.map((s) => [s.key, s.value]));
+
+    const storedUrl = byKey.get(LOCAL_BASE_URL_SETTING);
+    if (storedUrl !== undefined) {
+      const normalized = storedUrl ? normalizeLocalBaseUrl(storedUrl) : null;
+      if (normalized !== this.baseUrl) {
+        // Different server - previously discovered models no longer apply
+        this.discoveredModels = null;
+      }
+      this.baseUrl = normalized;
+    }
+
+    const storedKey = byKey.get(LOCAL_API_KEY_SETTING);
+    if (storedKey !== undefined) {
+      this.apiKey = storedKey || null;
+    }
+
+    // Models from an earlier discovery, if it was against the same server
+    const storedModels = byKey.get(LOCAL_MODELS_SETTING);
+    if (!this.discoveredModels && storedModels && this.baseUrl) {
+      try {
+        const { baseUrl, models } = JSON.parse(storedModels) as { baseUrl?: string; models?: unknown };
+        if (baseUrl === this.baseUrl && Array.isArray(models)) {
+          this.discoveredModels = models.filter((m): m is string => typeof m === "string");
+        }
+      } catch {
+        console.warn(`[Providers] Ignoring malformed ${LOCAL_MODELS_SETTING} setting`);
+      }
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const models = await super.listModels();
+    const value = JSON.stringify({ baseUrl: await this.getBaseUrl(), models });
+    await prisma.setting.upsert({
+      where: { key: LOCAL_MODELS_SETTING },
+      create: { key: LOCAL_MODELS_SETTING, value },
+      update: { value },
+    });
+    return models;
+  }
+
+  protected async getBaseUrl(): Promise<string> {
+    if (!this.baseUrl) await this.loadConfig();
+    if (!this.baseUrl) {
+      throw new Error("Local LLM endpoint not configured. Set it on the Settings page.");
+    }
+    return this.baseUrl;
+  }
+
+  protected async getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    // vLLM and llama.cpp can be started with --api-key; Ollama ignores it
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
+
+// Singleton instance
+export const localProvider = new LocalProvider();
@@ -0,0 +1,343 @@
+/**
+ * Shared base for providers that speak the OpenAI chat-completions wire
+ * format (OpenAI, Kimi, local servers). Subclasses supply the endpoint,
+ * headers and model list; message/tool conversion and response parsing
+ * live here.
+ */
+
+import {
+  LLMProvider,
+  ProviderId,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderTool,
+  ProviderToolCall,
+  ProviderMessage,
+  ProviderContentBlock,
+  ProviderStreamEvent,
+} from "./types";
+import { readChatCompletionStream } from "./stream";
+
+// OpenAI content types for multimodal messages
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string; detail?: "low" | "high" | "auto" } };
+
+export interface OpenAIMessage {
+  role: "user" | "assistant" | "system" | "tool";
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: {
+      type: "object";
+      properties: Record<string, unknown>;
+      required?: string[];
+    };
+  };
+}
+
+export interface OpenAIResponse {
+  id: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+export abstract class OpenAICompatibleProvider implements LLMProvider {
+  abstract id: ProviderId;
+  abstract name: string;
+
+  // Ask for usage in a final stream chunk (stream_options.include_usage)
+  protected includeStreamUsage = true;
+
+  abstract isConfigured(): boolean;
+  abstract getModels(): string[];
+
+  /**
+   * Base URL of the chat-completions API, without trailing slash
+   */
+  protected abstract getBaseUrl(): Promise<string>;
+
+  protected abstract getHeaders(): Promise<Record<string, string>>;
+
+  /**
+   * Build an error that carries the HTTP status so retry logic can classify it
+   */
+  protected apiError(status: number, body: string): Error {
+    const error = new Error(`${this.name} API error: ${status} - ${body}`) as Error & { status?: number };
+    error.status = status;
+    return error;
+  }
+
+  convertTools(tools: ProviderTool[]): OpenAITool[] {
+    return tools.map((tool) => ({
+      type: "function" as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: "object" as const,
+          properties: tool.parameters.properties,
+          required: tool.parameters.required || [],
+        },
+      },
+    }));
+  }
+
+  async chat(request: ProviderRequest): Promise<ProviderResponse> {
+    const body = this.buildRequestBody(request);
+
+    const response = await fetch(`${await this.getBaseUrl()}/chat/completions`, {
+      method: "POST",
+      headers: await this.getHeaders(),
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw this.apiError(response.status, errorText);
+    }
+
+    const data: OpenAIResponse = await response.json();
+    return this.parseResponse(data);
+  }
+
+  async *chatStream(request: ProviderRequest, signal?: AbortSignal): AsyncGenerator<ProviderStreamEvent> {
+    const body = {
+      ...this.buildRequestBody(request),
+      stream: true,
+      // Usage arrives in a final chunk with empty choices
+      ...(this.includeStreamUsage && { stream_options: { include_usage: true } }),
+    };
+
+    const response = await fetch(`${await this.getBaseUrl()}/chat/completions`, {
+      method: "POST",
+      headers: await this.getHeaders(),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw this.apiError(response.status, errorText);
+    }
+    if (!response.body) {
+      throw new Error(`${this.name} API returned no response body`);
+    }
+
+    const completion = yield* readChatCompletionStream(response.body);
+    yield { type: "done", response: this.parseResponse(completion) };
+  }
+
+  protected buildRequestBody(request: ProviderRequest): Record<string, unknown> {
+    const model = request.model || this.getModels()[0];
+    const body: Record<string, unknown> = {
+      model,
+      messages: this.convertMessages(request.messages, request.system),
+    };
+
+    this.applySamplingOptions(body, model, request);
+
+    if (request.tools && request.tools.length > 0) {
+      body.tools = this.convertTools(request.tools);
+      body.tool_choice = "auto";
+    }
+
+    if (request.stop_sequences && request.stop_sequences.length > 0) {
+      body.stop = request.stop_sequences;
+    }
+
+    return body;
+  }
+
+  /**
+   * Token limit and temperature; providers with models that name them
+   * differently override this
+   */
+  protected applySamplingOptions(body: Record<string, unknown>, _model: string, request: ProviderRequest): void {
+    body.max_tokens = request.max_tokens || 8192;
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+  }
+
+  protected convertMessages(
+    messages: ProviderMessage[],
+    system?: string
+  ): OpenAIMessage[] {
+    const result: OpenAIMessage[] = [];
+
+    // Merge the request-level system prompt and any system messages into one
+    const systemParts: string[] = [];
+    if (system) systemParts.push(system);
+    for (const msg of messages) {
+      if (msg.role === "system" && typeof msg.content === "string") {
+        systemParts.push(msg.content);
+      }
+    }
+    if (systemParts.length > 0) {
+      result.push({ role: "system", content: systemParts.join("\n") });
+    }
+
+    for (const msg of messages) {
+      if (msg.role === "system") continue;
+
+      if (typeof msg.content === "string") {
+        result.push({ role: msg.role, content: msg.content });
+        continue;
+      }
+
+      const contentParts: OpenAIContentPart[] = [];
+      const toolCalls: OpenAIToolCall[] = [];
+      let hasImages = false;
+
+      for (const block of msg.content) {
+        if (block.type === "text") {
+          contentParts.push({ type: "text", text: block.text || "" });
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id || "",
+            type: "function",
+            function: {
+              name: block.name || "",
+              arguments: JSON.stringify(block.input || {}),
+            },
+          });
+        } else if (block.type === "tool_result") {
+          // Tool results are standalone "tool" role messages, one per call id
+          result.push({
+            role: "tool",
+            content: this.formatToolResult(block),
+            tool_call_id: block.tool_use_id,
+          });
+        } else if (block.type === "image" && block.source) {
+          if (block.source.type === "base64" && block.source.data) {
+            hasImages = true;
+            const mediaType = block.source.media_type || "image/png";
+            contentParts.push({
+              type: "image_url",
+              image_url: { url: `data:${mediaType};base64,${block.source.data}`, detail: "high" },
+            });
+          } else if (block.source.type === "url" && block.source.url) {
+            hasImages = true;
+            contentParts.push({
+              type: "image_url",
+              image_url: { url: block.source.url, detail: "high" },
+            });
+          }
+        }
+      }
+
+      if (contentParts.length > 0 || toolCalls.length > 0) {
+        const openAIMsg: OpenAIMessage = {
+          role: msg.role,
+          // Use array format for multimodal content, string for text-only
+          content: hasImages
+            ? contentParts
+            : contentParts.length > 0
+              ? contentParts.map((p) => (p.type === "text" ? p.text : "")).join("\n")
+              : null,
+        };
+        if (toolCalls.length > 0) {
+          openAIMsg.tool_calls = toolCalls;
+        }
+        result.push(openAIMsg);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Chat completions has no is_error flag on tool messages - mark failures in the text
+   */
+  protected formatToolResult(block: ProviderContentBlock): string {
+    const content = typeof block.content === "string"
+      ? block.content
+      : JSON.stringify(block.content);
+    return block.is_error ? `Error: ${content}` : content;
+  }
+
+  protected parseResponse(response: OpenAIResponse): ProviderResponse {
+    const choice = response.choices[0];
+    const toolCalls: ProviderToolCall[] = [];
+
+    if (choice.message.tool_calls) {
+      for (const [index, tc] of choice.message.tool_calls.entries()) {
+        toolCalls.push({
+          // Some local servers omit call ids - results must still pair with their call
+          id: tc.id || `call_${response.id || "local"}_${index}`,
+          name: tc.function.name,
+          input: this.parseToolArguments(tc.function.arguments),
+        });
+      }
+    }
+
+    // prompt_tokens includes cached tokens - split them out to match Anthropic's accounting
+    const cachedTokens = response.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+
+    return {
+      id: response.id,
+      content: choice.message.content || "",
+      toolCalls,
+      stopReason: this.mapStopReason(choice.finish_reason),
+      usage: {
+        inputTokens: (response.usage?.prompt_tokens ?? 0) - cachedTokens,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+        cacheReadTokens: cachedTokens,
+      },
+      raw: response,
+    };
+  }
+
+  protected parseToolArguments(args: string): Record<string, unknown> {
+    if (!args) return {};
+    try {
+      return JSON.parse(args);
+    } catch {
+      // Handle invalid JSON in arguments
+      return { raw: args };
+    }
+  }
+
+  protected mapStopReason(
+    reason: string
+  ): "end_turn" | "tool_use" | "max_tokens" | "stop_sequence" {
+    switch (reason) {
+      case "tool_calls":
+      case "function_call":
+        return "tool_use";
+      case "length":
+        return "max_tokens";
+      default:
+        return "end_turn";
+    }
+  }
+}
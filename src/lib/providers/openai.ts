@@ -0,0 +1,119 @@
+/**
+ * OpenAI provider implementation
+ * Speaks the chat-completions wire format, so it also works against
+ * OpenAI-compatible gateways when OPENAI_BASE_URL is set
+ */
+
+import type { ProviderId, ProviderRequest } from "./types";
+import { OpenAICompatibleProvider } from "./openai-compatible";
+
+const DEFAULT_OPENAI_API_BASE = "https://api.openai.com/v1";
+
+// An unreachable endpoint must not stall whoever asked for the model list
+const MODEL_LIST_TIMEOUT_MS = 5000;
+
+const OPENAI_MODELS = [
+  "gpt-4.1",                  // Flagship, 1M context
+  "gpt-4.1-mini",             // Cheaper 4.1
+  "gpt-4o",                   // Multimodal, 128k context
+  "gpt-4o-mini",              // Cheap multimodal
+  "o3-mini",                  // Reasoning
+  "o1",                       // Reasoning
+];
+
+// Model families that are not usable through chat completions
+const NON_CHAT_MODEL_PATTERNS = [
+  /embedding/i,
+  /whisper/i,
+  /tts/i,
+  /dall-e/i,
+  /audio/i,
+  /realtime/i,
+  /transcribe/i,
+  /moderation/i,
+  /image/i,
+];
+
+interface OpenAIModelList {
+  data: Array<{ id: string }>;
+}
+
+/**
+ * Reasoning models (o1, o3, ...) take max_completion_tokens and reject temperature
+ */
+function isReasoningModel(model: string): boolean {
+  return /^o\d/.test(model);
+}
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  id: ProviderId = "openai";
+  name = "OpenAI";
+
+  // Populated by listModels() from the server's /models endpoint
+  protected discoveredModels: string[] | null = null;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  getModels(): string[] {
+    return this.discoveredModels && this.discoveredModels.length > 0
+      ? this.discoveredModels
+      : OPENAI_MODELS;
+  }
+
+  /**
+   * Fetch the model list from the server and cache it for getModels()
+   */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${await this.getBaseUrl()}/models`, {
+      headers: await this.getHeaders(),
+      signal: AbortSignal.timeout(MODEL_LIST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw this.apiError(response.status, errorText);
+    }
+
+    const data: OpenAIModelList = await response.json();
+    const ids = (data.data || []).map((m) => m.id).sort();
+    const chatModels = ids.filter(
+      (id) => !NON_CHAT_MODEL_PATTERNS.some((pattern) => pattern.test(id))
+    );
+
+    // Gateways may name models arbitrarily - keep everything if the filter removed all
+    this.discoveredModels = chatModels.length > 0 ? chatModels : ids;
+    return this.discoveredModels;
+  }
+
+  protected async getBaseUrl(): Promise<string> {
+    return (process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_API_BASE).replace(/\/+$/, "");
+  }
+
+  protected async getHeaders(): Promise<Record<string, string>> {
+    const key = process.env.OPENAI_API_KEY;
+    if (!key) {
+      throw new Error("OPENAI_API_KEY not configured");
+    }
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${key}`,
+    };
+    if (process.env.OPENAI_ORG_ID) {
+      headers["OpenAI-Organization"] = process.env.OPENAI_ORG_ID;
+    }
+    return headers;
+  }
+
+  protected applySamplingOptions(body: Record<string, unknown>, model: string, request: ProviderRequest): void {
+    if (isReasoningModel(model)) {
+      body.max_completion_tokens = request.max_tokens || 8192;
+    } else {
+      super.applySamplingOptions(body, model, request);
+    }
+  }
+}
+
+// Singleton instance
+export const openaiProvider = new OpenAIProvider();
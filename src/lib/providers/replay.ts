@@ -0,0 +1,57 @@
+/**
+ * Replay provider implementation
+ * Serves model responses from a cassette recorded with CASSETTE_MODE=record,
+ * so orchestrations run offline and deterministically. The router sends every
+ * request here while CASSETTE_MODE=replay.
+ */
+
+import { getCassette, hashRequest } from "../cassette";
+import type {
+  LLMProvider,
+  ProviderId,
+  ProviderRequest,
+  ProviderResponse,
+  ProviderStreamEvent,
+  ProviderTool,
+} from "./types";
+
+export class ReplayProvider implements LLMProvider {
+  id: ProviderId = "replay";
+  name = "Replay (cassette)";
+
+  isConfigured(): boolean {
+    return getCassette()?.mode === "replay";
+  }
+
+  getModels(): string[] {
+    return [];
+  }
+
+  convertTools(tools: ProviderTool[]): ProviderTool[] {
+    return tools;
+  }
+
+  async chat(request: ProviderRequest): Promise<ProviderResponse> {
+    const cassette = getCassette();
+    if (cassette?.mode !== "replay") {
+      throw new Error("Replay provider needs CASSETTE_MODE=replay");
+    }
+
+    const agent = request.agent || "unattributed";
+    const turn = cassette.next(agent, "turns");
+    if (turn.requestHash !== hashRequest(request)) {
+      // Still served - the point is often to see how a changed prompt plays out
+      console.warn(`[Cassette] Request from "${agent}" differs from the recording; replaying anyway`);
+    }
+    return turn.response;
+  }
+
+  async *chatStream(request: ProviderRequest): AsyncIterable<ProviderStreamEvent> {
+    const response = await this.chat(request);
+    if (response.content) yield { type: "text_delta", text: response.content };
+    yield { type: "done", response };
+  }
+}
+
+// Singleton instance
+export const replayProvider = new ReplayProvider();
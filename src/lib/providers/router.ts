@@ -16,14 +16,34 @@ import {
 } from "./types";
 import { anthropicProvider } from "./anthropic";
 import { kimiProvider } from "./kimi";
-import { withRetryAndCircuitBreaker, getCircuitBreaker } from "../retry";
+import { openaiProvider } from "./openai";
+import { localProvider } from "./local";
+import { replayProvider } from "./replay";
+import { withRetryAndCircuitBreaker, getCircuitBreaker, isTransientError } from "../retry";
+import { getCassette, hashRequest } from "../cassette";
 
 // Registry of all available providers
 const providers = new Map<ProviderId, LLMProvider>([
   ["anthropic", anthropicProvider as LLMProvider],
   ["kimi", kimiProvider as LLMProvider],
+  ["openai", openaiProvider as LLMProvider],
+  ["local", localProvider as LLMProvider],
+  ["replay", replayProvider as LLMProvider],
 ]);
 
+// Open-weight model families commonly served by Ollama, llama.cpp and vLLM
+const LOCAL_MODEL_PATTERNS = [
+  /^(meta-llama\/)?llama/i,
+  /^codellama/i,
+  /^qwen/i,
+  /^mistral/i,
+  /^mixtral/i,
+  /^gemma/i,
+  /^phi\d?/i,
+  /^deepseek-(coder|r1)/i,
+  /^starcoder/i,
+];
+
 /**
  * Get a provider by ID
  */
@@ -50,7 +70,9 @@ export function getProviderCapabilities(providerId: ProviderId) {
 }
 
 /**
- * Detect provider from model name
+ * Detect provider from model name. Local models are only known once the
+ * local provider's config is loaded - use resolveProviderFromModel unless
+ * that's certain.
  */
 export function detectProviderFromModel(model: string): ProviderId {
   // Claude models
@@ -61,14 +83,50 @@ export function detectProviderFromModel(model: string): ProviderId {
   if (model.startsWith("kimi-") || model.startsWith("kimi-k") || model.startsWith("moonshot-")) {
     return "kimi";
   }
+  // Anything the local server reported, before the OpenAI prefixes (gpt-oss)
+  if (localProvider.getModels().includes(model)) {
+    return "local";
+  }
   // OpenAI models
-  if (model.startsWith("gpt-") || model.startsWith("o1-") || model.startsWith("o3-")) {
+  if (model.startsWith("gpt-") || model.startsWith("chatgpt-") || /^o\d(-|$)/.test(model)) {
     return "openai";
   }
+  // Self-hosted models - a known open-weight family
+  if (LOCAL_MODEL_PATTERNS.some((p) => p.test(model))) {
+    return "local";
+  }
   // Default to Anthropic
   return "anthropic";
 }
 
+/**
+ * Detect provider from model name, loading the local provider's stored
+ * model list first
+ */
+export async function resolveProviderFromModel(model: string): Promise<ProviderId> {
+  await localProvider.loadConfig().catch(console.error);
+  return detectProviderFromModel(model);
+}
+
+/**
+ * Provider that will actually serve a request: the replay provider while a
+ * cassette is being replayed, otherwise the given or detected one
+ */
+async function resolveProviderId(providerId: ProviderId | undefined, model: string): Promise<ProviderId> {
+  if (getCassette()?.mode === "replay") return "replay";
+  return providerId || resolveProviderFromModel(model);
+}
+
+/**
+ * Add a completed exchange to the cassette when recording
+ */
+function recordExchange(request: ProviderRequest, response: ProviderResponse): void {
+  const cassette = getCassette();
+  if (cassette?.mode !== "record") return;
+  const { raw: _raw, ...recorded } = response;
+  cassette.record(request.agent || "unattributed", "turns", { requestHash: hashRequest(request), response: recorded });
+}
+
 /**
  * Route a request to the appropriate provider with retry and circuit breaker
  */
@@ -78,8 +136,9 @@ export async function routeRequest(
   options?: { signal?: AbortSignal }
 ): Promise<ProviderResponse> {
   // Auto-detect provider from model if not specified
-  const actualProviderId = providerId || detectProviderFromModel(request.model);
+  const actualProviderId = await resolveProviderId(providerId, request.model);
   const provider = getProvider(actualProviderId);
+  await provider.loadConfig?.();
 
   if (!provider.isConfigured()) {
     throw new Error(
@@ -88,7 +147,7 @@ export async function routeRequest(
   }
 
   // Execute with retry and circuit breaker protection
-  return withRetryAndCircuitBreaker(
+  const response = await withRetryAndCircuitBreaker(
     actualProviderId,
     () => provider.chat(request),
     {
@@ -98,6 +157,69 @@ export async function routeRequest(
       signal: options?.signal,
     }
   );
+  recordExchange(request, response);
+  return response;
+}
+
+/**
+ * Route a streaming request. Text deltas are passed to onDelta as they arrive and
+ * the complete response (with assembled tool calls) is returned. Providers without
+ * chatStream fall back to chat() and deliver the whole text as one delta.
+ */
+export async function routeStreamRequest(
+  providerId: ProviderId | undefined,
+  request: ProviderRequest,
+  onDelta: (delta: string) => void,
+  options?: { signal?: AbortSignal }
+): Promise<ProviderResponse> {
+  const actualProviderId = await resolveProviderId(providerId, request.model);
+  const provider = getProvider(actualProviderId);
+
+  if (!provider.chatStream) {
+    const response = await routeRequest(actualProviderId, request, options);
+    if (response.content) onDelta(response.content);
+    return response;
+  }
+
+  await provider.loadConfig?.();
+
+  if (!provider.isConfigured()) {
+    throw new Error(
+      `Provider ${actualProviderId} is not configured. Please set the appropriate API key.`
+    );
+  }
+
+  // Once text has reached the client a retry would duplicate it, so only
+  // failures before the first delta are retried
+  let streamedText = false;
+
+  const response = await withRetryAndCircuitBreaker(
+    actualProviderId,
+    async () => {
+      let final: ProviderResponse | null = null;
+      for await (const event of provider.chatStream!(request, options?.signal)) {
+        if (event.type === "text_delta") {
+          streamedText = true;
+          onDelta(event.text);
+        } else {
+          final = event.response;
+        }
+      }
+      if (!final) {
+        throw new Error(`Provider ${actualProviderId} stream ended without a response`);
+      }
+      return final;
+    },
+    {
+      maxAttempts: 3,
+      initialDelayMs: 1000,
+      maxDelayMs: 15000,
+      signal: options?.signal,
+      isTransient: (error) => !streamedText && isTransientError(error),
+    }
+  );
+  recordExchange(request, response);
+  return response;
 }
 
 /**
@@ -151,6 +273,61 @@ export function getAllAvailableModels(): Array<{
   return models;
 }
 
+// How long discovered model lists are reused before they're fetched again
+const MODEL_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+let modelsRefreshedAt = 0;
+let modelRefresh: Promise<void> | null = null;
+// Bumped on invalidation so a discovery already under way doesn't count
+let modelsGeneration = 0;
+
+/**
+ * Refresh model lists for configured providers that support discovery.
+ * Failures are logged and the provider keeps its static model list.
+ *
+ * Lists are cached: only the first call waits for discovery, later ones get
+ * the cached lists and refresh them in the background once they're stale.
+ * Endpoint settings are always reloaded, since they decide isConfigured().
+ */
+export async function refreshProviderModels(): Promise<void> {
+  await Promise.all(
+    Array.from(providers.values()).map((p) => p.loadConfig?.().catch(console.error))
+  );
+  if (!modelRefresh && Date.now() - modelsRefreshedAt > MODEL_REFRESH_INTERVAL_MS) {
+    const generation = modelsGeneration;
+    modelRefresh = discoverModels().finally(() => {
+      if (generation !== modelsGeneration) return;
+      modelsRefreshedAt = Date.now();
+      modelRefresh = null;
+    });
+  }
+  if (modelsRefreshedAt === 0 && modelRefresh) await modelRefresh;
+}
+
+/**
+ * Make the next refreshProviderModels() call rediscover and wait for it,
+ * e.g. after an endpoint changed
+ */
+export function invalidateProviderModels(): void {
+  modelsGeneration++;
+  modelsRefreshedAt = 0;
+  modelRefresh = null;
+}
+
+async function discoverModels(): Promise<void> {
+  await Promise.all(
+    Array.from(providers.values())
+      .filter((p) => p.isConfigured() && p.listModels)
+      .map(async (p) => {
+        try {
+          await p.listModels!();
+        } catch (err) {
+          console.warn(`[Providers] Model discovery failed for ${p.id}:`, err instanceof Error ? err.message : err);
+        }
+      })
+  );
+}
+
 /**
  * Filter tools based on provider capabilities
  * Some tools may not work with certain providers
@@ -0,0 +1,193 @@
+/**
+ * Server-sent event streaming for chat-completions style APIs (Kimi, OpenAI, local)
+ * Yields text deltas as they arrive and assembles tool calls from their fragments
+ */
+
+import type { ProviderStreamEvent } from "./types";
+
+/**
+ * A streamed completion reassembled into the non-streaming response shape,
+ * so providers can run it through their regular parseResponse()
+ */
+export interface AssembledChatCompletion {
+  id: string;
+  choices: Array<{
+    message: {
+      role: string;
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }>;
+    };
+    finish_reason: string;
+  }>;
+  usage: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+interface ChatCompletionChunk {
+  id?: string;
+  choices?: Array<{
+    index?: number;
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        type?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+    // Moonshot reports usage on the final choice instead of the chunk
+    usage?: ChatCompletionUsage;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+interface ChatCompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+/**
+ * Split a response body into SSE "data:" payloads, stopping at [DONE]
+ */
+async function* readEventData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+
+        if (line === "") {
+          // Blank line terminates an event
+          if (dataLines.length > 0) {
+            const data = dataLines.join("\n");
+            dataLines = [];
+            if (data === "[DONE]") return;
+            yield data;
+          }
+        } else if (line.startsWith("data:")) {
+          dataLines.push(line.slice(5).replace(/^ /, ""));
+        }
+        // Comments (":") and other fields (event:, id:, retry:) are ignored
+      }
+
+      if (done) break;
+    }
+
+    // Some servers close the stream without a trailing blank line
+    const trailing = buffer.startsWith("data:") ? buffer.slice(5).trim() : "";
+    if (trailing) dataLines.push(trailing);
+    if (dataLines.length > 0) {
+      const data = dataLines.join("\n");
+      if (data !== "[DONE]") yield data;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Consume a streaming chat-completions response. Text deltas are yielded as
+ * they arrive; the assembled completion is the generator's return value.
+ */
+export async function* readChatCompletionStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ProviderStreamEvent, AssembledChatCompletion> {
+  let id = "";
+  let content = "";
+  let finishReason = "stop";
+  let usage: ChatCompletionUsage | null = null;
+  // Tool calls arrive in fragments keyed by index: id and name first, then argument chunks
+  const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  for await (const data of readEventData(body)) {
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      console.warn("[Providers] Skipping malformed stream chunk:", data.slice(0, 200));
+      continue;
+    }
+
+    if (chunk.id && !id) id = chunk.id;
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+
+    if (choice.usage) usage = choice.usage;
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+
+    const delta = choice.delta;
+    if (!delta) continue;
+
+    if (delta.content) {
+      content += delta.content;
+      yield { type: "text_delta", text: delta.content };
+    }
+
+    if (delta.tool_calls) {
+      for (const [position, fragment] of delta.tool_calls.entries()) {
+        // Servers that send whole calls in one chunk may omit the index
+        const index = fragment.index ?? position;
+        const call = toolCalls.get(index) || { id: "", name: "", arguments: "" };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+        toolCalls.set(index, call);
+      }
+    }
+  }
+
+  const assembledCalls = Array.from(toolCalls.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, call]) => ({
+      id: call.id,
+      type: "function" as const,
+      function: { name: call.name, arguments: call.arguments },
+    }));
+
+  const promptTokens = usage?.prompt_tokens ?? 0;
+  const completionTokens = usage?.completion_tokens ?? 0;
+
+  return {
+    id,
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content: content || null,
+          tool_calls: assembledCalls.length > 0 ? assembledCalls : undefined,
+        },
+        // Some local servers report "stop" even when the turn ended in tool calls
+        finish_reason: assembledCalls.length > 0 && finishReason === "stop" ? "tool_calls" : finishReason,
+      },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage?.total_tokens ?? promptTokens + completionTokens,
+      prompt_tokens_details: usage?.prompt_tokens_details,
+    },
+  };
+}
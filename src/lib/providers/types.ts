@@ -3,7 +3,14 @@
  * Enables multi-LLM support (Claude, Kimi, etc.)
  */
 
-export type ProviderId = "anthropic" | "kimi" | "openai";
+export type ProviderId = "anthropic" | "kimi" | "openai" | "local" | "replay";
+
+// Providers an agent can be assigned to; replay is only ever chosen by a cassette
+export const SELECTABLE_PROVIDER_IDS = ["anthropic", "kimi", "openai", "local"] as const;
+
+export function isSelectableProvider(id: string): boolean {
+  return (SELECTABLE_PROVIDER_IDS as readonly string[]).includes(id);
+}
 
 export interface ProviderMessage {
   role: "user" | "assistant" | "system";
@@ -48,6 +55,8 @@ export interface ProviderRequest {
   max_tokens?: number;
   temperature?: number;
   stop_sequences?: string[];
+  // Name of the agent making the request - keys cassette recordings, not sent to the API
+  agent?: string;
 }
 
 export interface ProviderToolCall {
@@ -62,12 +71,22 @@ export interface ProviderResponse {
   toolCalls: ProviderToolCall[];
   stopReason: "end_turn" | "tool_use" | "max_tokens" | "stop_sequence";
   usage: {
-    inputTokens: number;
+    inputTokens: number; // Uncached input only - cache reads/writes are counted separately
     outputTokens: number;
+    cacheReadTokens?: number;
+    cacheWriteTokens?: number;
   };
   raw?: unknown; // Original provider response for debugging
 }
 
+/**
+ * Incremental output from chatStream(): text as it arrives, then the complete
+ * response (with fully assembled tool calls) once the stream ends
+ */
+export type ProviderStreamEvent =
+  | { type: "text_delta"; text: string }
+  | { type: "done"; response: ProviderResponse };
+
 export interface LLMProvider {
   id: ProviderId;
   name: string;
@@ -77,11 +96,22 @@ export interface LLMProvider {
    */
   isConfigured(): boolean;
 
+  /**
+   * Reload configuration stored outside env vars, e.g. in the Setting table (optional)
+   */
+  loadConfig?(): Promise<void>;
+
   /**
    * Get available models for this provider
    */
   getModels(): string[];
 
+  /**
+   * Discover available models from the provider's API (optional)
+   * Implementations cache the result so getModels() reflects it
+   */
+  listModels?(): Promise<string[]>;
+
   /**
    * Convert MCP tools to provider-specific format
    */
@@ -94,8 +124,9 @@ export interface LLMProvider {
 
   /**
    * Stream a request to the LLM (optional)
+   * The last event is always "done" with the full response
    */
-  chatStream?(request: ProviderRequest): AsyncIterable<ProviderResponse>;
+  chatStream?(request: ProviderRequest, signal?: AbortSignal): AsyncIterable<ProviderStreamEvent>;
 }
 
 /**
@@ -135,4 +166,21 @@ export const PROVIDER_CAPABILITIES: Record<ProviderId, ProviderCapabilities> = {
     maxContextTokens: 128000,
     maxOutputTokens: 4096,
   },
+  local: {
+    supportsTools: true, // Depends on the served model's chat template
+    supportsImages: false,
+    supportsStreaming: true,
+    supportsMCP: false,
+    maxContextTokens: 32768,
+    maxOutputTokens: 4096,
+  },
+  // Serves recorded responses back; limits are whatever the recording had
+  replay: {
+    supportsTools: true,
+    supportsImages: true,
+    supportsStreaming: true,
+    supportsMCP: false,
+    maxContextTokens: 200000,
+    maxOutputTokens: 8192,
+  },
 };
@@ -0,0 +1,173 @@
+/**
+ * Durable Run State
+ *
+ * The orchestrator's live state (agent pool, locks, escalation resolvers) is
+ * in-memory and dies with the process. This module mirrors what matters in
+ * the database - each orchestration run, the agents working in it and who
+ * delegated to them - so a restart can tell which runs were cut off and what
+ * they were in the middle of.
+ */
+
+import { prisma } from "./db";
+
+// ==================== TYPES ====================
+
+export type RunStatus = "running" | "completed" | "stopped" | "failed" | "interrupted" | "resumed";
+
+export type AgentRunStatus = "running" | "done" | "failed" | "interrupted";
+
+export interface InterruptedRun {
+  runId: string;
+  conversationId: string;
+  agentId: string;
+  task: string;
+  finished: Array<{ agentName: string; result: string }>;
+  inProgress: Array<{ agentName: string; parentName: string | null; task: string }>;
+  openEscalations: string[];
+}
+
+// Run currently executing for each conversation in this process
+const activeRuns = new Map<string, string>();
+
+export const INTERRUPTED_RUN_SETTING = "interruptedRunAction";
+export const INTERRUPTED_RUN_ACTIONS = ["fail", "resume"] as const;
+export type InterruptedRunAction = (typeof INTERRUPTED_RUN_ACTIONS)[number];
+
+// ==================== RUN LIFECYCLE ====================
+
+export async function startRun(conversationId: string, agentId: string, task: string): Promise<string> {
+  const run = await prisma.orchestrationRun.create({
+    data: { conversationId, agentId, task },
+  });
+  activeRuns.set(conversationId, run.id);
+  return run.id;
+}
+
+export async function finishRun(
+  conversationId: string,
+  runId: string,
+  status: Exclude<RunStatus, "running" | "interrupted" | "resumed">,
+  error?: string
+): Promise<void> {
+  if (activeRuns.get(conversationId) === runId) activeRuns.delete(conversationId);
+  await prisma.$transaction([
+    prisma.orchestrationRun.update({
+      where: { id: runId },
+      data: { status, error: error ?? null, endedAt: new Date() },
+    }),
+    // Agents still marked running were cut off by the stop
+    prisma.agentRun.updateMany({
+      where: { runId, status: "running" },
+      data: { status: status === "completed" ? "done" : "interrupted", endedAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Record an agent starting work in the conversation's active run. Returns
+ * null when there's no run to attach to.
+ */
+export async function startAgentRun(conversationId: string, params: {
+  agentId: string;
+  agentName: string;
+  parentAgentId?: string;
+  task: string;
+  depth: number;
+}): Promise<string | null> {
+  const runId = activeRuns.get(conversationId);
+  if (!runId) return null;
+  const agentRun = await prisma.agentRun.create({
+    data: { runId, ...params, parentAgentId: params.parentAgentId ?? null },
+  });
+  return agentRun.id;
+}
+
+export async function finishAgentRun(agentRunId: string, status: AgentRunStatus, result: string): Promise<void> {
+  await prisma.agentRun.update({
+    where: { id: agentRunId },
+    data: { status, result: result.slice(0, 4000), endedAt: new Date() },
+  });
+}
+
+// ==================== RECOVERY ====================
+
+/**
+ * Mark every run the database still thinks is running as interrupted, along
+ * with its agents and every pending escalation, since their resolvers died
+ * with the process. Only safe to call at boot, before this process starts
+ * runs of its own. Returns the runs affected.
+ */
+export async function markInterruptedRuns(): Promise<Array<{ conversationId: string; runId: string }>> {
+  const running = await prisma.orchestrationRun.findMany({
+    where: { status: "running" },
+    select: { id: true, conversationId: true },
+  });
+
+  const runIds = running.map((r) => r.id);
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.orchestrationRun.updateMany({
+      where: { id: { in: runIds } },
+      data: { status: "interrupted", endedAt: now },
+    }),
+    prisma.agentRun.updateMany({
+      where: { runId: { in: runIds }, status: "running" },
+      data: { status: "interrupted", endedAt: now },
+    }),
+    prisma.escalation.updateMany({
+      where: { status: "pending" },
+      data: { status: "interrupted" },
+    }),
+  ]);
+
+  return running.map((r) => ({ conversationId: r.conversationId, runId: r.id }));
+}
+
+/**
+ * The most recent interrupted run for a conversation, with enough detail to
+ * brief the crew on picking it back up
+ */
+export async function getInterruptedRun(conversationId: string): Promise<InterruptedRun | null> {
+  const run = await prisma.orchestrationRun.findFirst({
+    where: { conversationId },
+    orderBy: { startedAt: "desc" },
+    include: { agentRuns: { orderBy: { startedAt: "asc" } } },
+  });
+  if (!run || run.status !== "interrupted") return null;
+
+  const names = new Map(run.agentRuns.map((a) => [a.agentId, a.agentName]));
+  const escalations = await prisma.escalation.findMany({
+    where: { conversationId, kind: "question", status: "interrupted", createdAt: { gte: run.startedAt } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return {
+    runId: run.id,
+    conversationId,
+    agentId: run.agentId,
+    task: run.task,
+    finished: run.agentRuns
+      .filter((a) => a.status === "done" && a.result)
+      .map((a) => ({ agentName: a.agentName, result: a.result! })),
+    inProgress: run.agentRuns
+      .filter((a) => a.status === "interrupted")
+      .map((a) => ({
+        agentName: a.agentName,
+        parentName: a.parentAgentId ? names.get(a.parentAgentId) ?? null : null,
+        task: a.task,
+      })),
+    openEscalations: escalations.map((e) => e.question),
+  };
+}
+
+export async function markRunResumed(runId: string): Promise<void> {
+  await prisma.orchestrationRun.update({
+    where: { id: runId },
+    data: { status: "resumed" },
+  });
+}
+
+export async function getInterruptedRunAction(): Promise<InterruptedRunAction> {
+  const setting = await prisma.setting.findUnique({ where: { key: INTERRUPTED_RUN_SETTING } });
+  return setting?.value === "resume" ? "resume" : "fail";
+}
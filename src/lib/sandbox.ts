@@ -1,16 +1,63 @@
-import { execFile } from "child_process";
-import { writeFile, unlink, mkdir } from "fs/promises";
-import { join } from "path";
+/**
+ * Code Execution Sandbox
+ *
+ * Runs tester code and build commands with limits, each in its own process
+ * group so a timeout kills everything it started. Code gets a throwaway
+ * directory (also its TMPDIR), removed afterwards; builds run in the project
+ * directory. On Linux:
+ *
+ * - rlimits via prlimit: data segment (memory), CPU time, size of files
+ *   written, and processes/threads. The process limit counts every process of
+ *   the server's user, so it's set to what the user runs already plus the
+ *   allowance, and isn't enforced at all for root.
+ * - no network for code, via a fresh network namespace (unshare), unless the
+ *   operator turns the sandboxNetwork setting on or namespaces aren't
+ *   available. Builds keep the network since they often fetch dependencies.
+ *
+ * TypeScript runs with the app's own tsx (a dependency), never through
+ * npx, which would try to download it - and hang without a network.
+ *
+ * Output is capped per stream; a process that writes past the cap is killed.
+ * Environment variables that look like credentials are not passed on. What
+ * was actually applied is reported in ExecutionResult.limits.
+ */
+
+import { spawn, execFile } from "child_process";
+import { writeFile, mkdtemp, rm, readdir, stat, access } from "fs/promises";
+import { constants } from "fs";
+import { join, delimiter } from "path";
 import { tmpdir } from "os";
 import { randomUUID } from "crypto";
 
 const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_BUILD_TIMEOUT_MS = 60_000;
+
+// "on" lets executed code reach the network; anything else keeps it cut off
+export const SANDBOX_NETWORK_SETTING = "sandboxNetwork";
 
 export interface ExecutionResult {
   stdout: string;
   stderr: string;
   exitCode: number;
   compilationErrors?: CompilationError[];
+  // Set when stdout or stderr hit the output cap and the process was killed
+  outputTruncated?: boolean;
+  limits?: SandboxLimits;
+}
+
+/**
+ * Limits an execution actually ran under. An rlimit is null when it couldn't
+ * be applied (no prlimit, or not Linux).
+ */
+export interface SandboxLimits {
+  timeoutMs: number;
+  maxOutputBytes: number;
+  memoryMb: number | null;
+  cpuSeconds: number | null;
+  fileSizeMb: number | null;
+  // Processes and threads beyond those the user already runs; null for root
+  maxProcesses: number | null;
+  networkIsolated: boolean;
 }
 
 export interface CompilationError {
@@ -27,104 +74,422 @@ export interface PythonResult {
   exitCode: number;
 }
 
-export type SupportedLanguage = "python" | "typescript" | "javascript" | "build";
+export type SupportedLanguage = "python" | "typescript" | "javascript";
+
+interface ResourceLimits {
+  memoryMb: number;
+  fileSizeMb: number;
+  maxProcesses: number;
+  maxOutputBytes: number;
+}
+
+const CODE_LIMITS: ResourceLimits = {
+  memoryMb: 512,
+  fileSizeMb: 64,
+  maxProcesses: 64,
+  maxOutputBytes: 256 * 1024,
+};
+
+// Compilers and bundlers need more room than a script
+const BUILD_LIMITS: ResourceLimits = {
+  memoryMb: 4096,
+  fileSizeMb: 512,
+  maxProcesses: 256,
+  maxOutputBytes: 1024 * 1024,
+};
 
 interface ExecuteCodeOptions {
   code: string;
   language: SupportedLanguage;
   timeout?: number;
-  buildCommand?: string; // For language="build", e.g., "npm run build", "tsc --noEmit"
+  // Keep network access (by default it's cut off where namespaces allow).
+  // Comes from SANDBOX_NETWORK_SETTING, never from the agent
+  allowNetwork?: boolean;
+}
+
+interface RunBuildOptions {
+  command: string; // e.g. "npm run build", "npm ci && tsc --noEmit"
+  workingDirectory: string;
+  // Added to (or replacing) the environment
+  env?: Record<string, string>;
+  timeout?: number;
+  // Output as it arrives, for streaming progress
+  onOutput?: (stream: "stdout" | "stderr", text: string) => void;
+}
+
+// One command of a build: its leading VAR=value assignments and its arguments
+export interface BuildStep {
+  env: Record<string, string>;
+  argv: string[];
+}
+
+// ==================== PLATFORM SUPPORT ====================
+
+function succeeds(command: string, args: string[]): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile(command, args, { timeout: 5000 }, (error) => resolve(!error));
+  });
+}
+
+let support: Promise<{ prlimit: boolean; unshareArgs: string[] | null }> | null = null;
+
+/**
+ * Which isolation tools work here, checked once
+ */
+function detectSupport() {
+  if (!support) {
+    support = (async () => {
+      if (process.platform !== "linux") return { prlimit: false, unshareArgs: null };
+      // Unprivileged users need a user namespace to get a network namespace
+      const unshareArgs = process.getuid?.() === 0 ? ["--net"] : ["--net", "--map-root-user"];
+      const [prlimit, unshare] = await Promise.all([
+        succeeds("prlimit", ["--version"]),
+        succeeds("unshare", [...unshareArgs, "--", "true"]),
+      ]);
+      return { prlimit, unshareArgs: unshare ? unshareArgs : null };
+    })();
+  }
+  return support;
+}
+
+/**
+ * Processes and threads the server's user is running, which RLIMIT_NPROC
+ * counts against the limit too
+ */
+async function countUserTasks(): Promise<number> {
+  const uid = process.getuid?.();
+  let count = 0;
+  for (const entry of await readdir("/proc").catch(() => [] as string[])) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      if ((await stat(join("/proc", entry))).uid !== uid) continue;
+      count += (await readdir(join("/proc", entry, "task"))).length;
+    } catch {
+      // Exited while we were looking
+    }
+  }
+  return count;
+}
+
+/**
+ * The tsx binary from the app's node_modules, else the first on PATH
+ */
+async function findTsx(): Promise<string | null> {
+  const dirs = [join(process.cwd(), "node_modules", ".bin"), ...(process.env.PATH ?? "").split(delimiter).filter(Boolean)];
+  for (const dir of dirs) {
+    const candidate = join(dir, "tsx");
+    if (await access(candidate, constants.X_OK).then(() => true, () => false)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * The environment without anything that looks like a credential
+ */
+function sandboxEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { ...process.env };
+  for (const key of Object.keys(env)) {
+    if (/KEY|TOKEN|SECRET|PASSWORD|CREDENTIAL/i.test(key)) delete env[key];
+  }
+  return env;
 }
 
+// ==================== EXECUTION ====================
+
 /**
- * Execute code in a sandboxed temp directory with timeout protection.
- * Supports Python, TypeScript, JavaScript, and build commands.
+ * Execute code in its own sandbox directory with resource, network and
+ * output limits. Supports Python, TypeScript, and JavaScript.
  */
 export async function executeCode({
   code,
   language,
   timeout = DEFAULT_TIMEOUT_MS,
-  buildCommand,
+  allowNetwork = false,
 }: ExecuteCodeOptions): Promise<ExecutionResult> {
-  const dir = join(tmpdir(), "agentmafia-sandbox");
-  await mkdir(dir, { recursive: true });
-
-  let command: string;
-  let args: string[];
-  let filepath: string | undefined;
-
-  if (language === "build") {
-    // Build commands run in the temp directory without writing a file
-    if (!buildCommand) {
-      return {
-        stdout: "",
-        stderr: "Error: buildCommand is required for language='build'",
-        exitCode: 1,
-      };
-    }
-    // Parse command (e.g., "npm run build" -> command="npm", args=["run", "build"])
-    const parts = buildCommand.split(" ");
-    command = parts[0];
-    args = parts.slice(1);
-  } else {
-    // Write code to temp file
-    const ext = language === "python" ? "py" : language === "typescript" ? "ts" : "js";
-    const filename = `script_${randomUUID().slice(0, 8)}.${ext}`;
-    filepath = join(dir, filename);
+  const ext = language === "python" ? "py" : language === "typescript" ? "ts" : "js";
+  const tsx = language === "typescript" ? await findTsx() : null;
+  if (language === "typescript" && !tsx) {
+    return {
+      stdout: "",
+      stderr: "Error: TypeScript execution needs tsx, which is missing from the app's node_modules. Run the code as JavaScript instead.",
+      exitCode: 1,
+    };
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "agentmafia-sandbox-"));
+  try {
+    const filepath = join(dir, `script_${randomUUID().slice(0, 8)}.${ext}`);
     await writeFile(filepath, code, "utf-8");
 
+    let argv: string[];
     if (language === "python") {
-      command = "python";
-      args = [filepath];
+      argv = ["python", filepath];
     } else if (language === "typescript") {
-      // Use tsx for TypeScript execution (requires tsx installed globally or in project)
-      command = "npx";
-      args = ["tsx", filepath];
+      argv = [tsx!, filepath];
     } else {
       // JavaScript via node
-      command = "node";
-      args = [filepath];
+      argv = ["node", filepath];
     }
+
+    return await runLimited({
+      argv,
+      cwd: dir,
+      env: { ...sandboxEnv(), TMPDIR: dir, TMP: dir, TEMP: dir },
+      timeout,
+      resources: CODE_LIMITS,
+      allowNetwork,
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true }).catch(() => {});
   }
+}
 
-  return new Promise((resolve) => {
-    const proc = execFile(
-      command,
-      args,
-      { timeout, cwd: dir, maxBuffer: 1024 * 1024 },
-      (error, stdout, stderr) => {
-        // Clean up temp file if created
-        if (filepath) {
-          unlink(filepath).catch(() => {});
-        }
-
-        if (error && "killed" in error && error.killed) {
-          resolve({
-            stdout,
-            stderr: stderr + `\n[Execution timed out after ${timeout / 1000} seconds]`,
-            exitCode: 1,
-          });
-          return;
-        }
-
-        const exitCode = error
-          ? ((error as NodeJS.ErrnoException & { code?: number }).code as unknown as number) || 1
-          : 0;
-
-        resolve({
-          stdout: stdout || "",
-          stderr: stderr || "",
-          exitCode,
-        });
+/**
+ * Run a build command in the project directory. The command is split like a
+ * shell would - quotes, backslash escapes, VAR=value prefixes and && chains -
+ * but nothing is expanded, so pipes, redirects and $VARIABLES are refused.
+ * Steps run in order until one fails, sharing the timeout.
+ */
+export async function runBuild({
+  command,
+  workingDirectory,
+  env = {},
+  timeout = DEFAULT_BUILD_TIMEOUT_MS,
+  onOutput,
+}: RunBuildOptions): Promise<ExecutionResult> {
+  const { steps, error } = parseBuildCommand(command);
+  if (!steps) {
+    return { stdout: "", stderr: `Error: ${error}`, exitCode: 1 };
+  }
+
+  // Project binaries (tsc, eslint...) resolve the way they do in npm scripts
+  const baseEnv = sandboxEnv();
+  baseEnv.PATH = [join(workingDirectory, "node_modules", ".bin"), baseEnv.PATH].filter(Boolean).join(delimiter);
+
+  const deadline = Date.now() + timeout;
+  let stdout = "";
+  let stderr = "";
+  let last: ExecutionResult | null = null;
+  for (const step of steps) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      stderr += `\n[Build timed out after ${timeout / 1000} seconds]`;
+      return { stdout, stderr, exitCode: 1, limits: last?.limits };
+    }
+    last = await runLimited({
+      argv: step.argv,
+      cwd: workingDirectory,
+      env: { ...baseEnv, ...env, ...step.env },
+      timeout: remaining,
+      resources: BUILD_LIMITS,
+      allowNetwork: true,
+      onOutput,
+    });
+    stdout += last.stdout;
+    stderr += last.stderr;
+    if (last.exitCode !== 0) break;
+  }
+
+  return { ...last!, stdout, stderr, limits: last!.limits && { ...last!.limits, timeoutMs: timeout } };
+}
+
+/**
+ * Split a build command into steps, or say why it can't be run without a shell
+ */
+export function parseBuildCommand(command: string): { steps?: BuildStep[]; error?: string } {
+  const steps: BuildStep[] = [];
+  let words: Array<{ text: string; assignable: boolean }> = [];
+  let word: string | null = null;
+  // Where quoting started in the current word; a VAR= before it is an assignment
+  let quotedFrom = -1;
+
+  const endWord = () => {
+    if (word !== null) words.push({ text: word, assignable: quotedFrom === -1 || word.indexOf("=") < quotedFrom });
+    word = null;
+    quotedFrom = -1;
+  };
+  const endStep = (): string | null => {
+    endWord();
+    const step: BuildStep = { env: {}, argv: [] };
+    for (const { text, assignable } of words) {
+      const assignment = assignable && step.argv.length === 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.exec(text);
+      if (assignment) {
+        step.env[text.slice(0, assignment[0].length - 1)] = text.slice(assignment[0].length);
+      } else {
+        step.argv.push(text);
       }
-    );
+    }
+    if (step.argv.length === 0) return command.includes("&&") ? "Empty command in the && chain" : "Empty build command";
+    steps.push(step);
+    words = [];
+    return null;
+  };
 
-    // Safety: kill if somehow still running
-    setTimeout(() => {
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    if (/\s/.test(c)) {
+      endWord();
+    } else if (c === "'") {
+      const close = command.indexOf("'", i + 1);
+      if (close === -1) return { error: "Unterminated ' quote" };
+      if (quotedFrom === -1) quotedFrom = (word ?? "").length;
+      word = (word ?? "") + command.slice(i + 1, close);
+      i = close;
+    } else if (c === '"') {
+      if (quotedFrom === -1) quotedFrom = (word ?? "").length;
+      word = word ?? "";
+      for (i++; i < command.length && command[i] !== '"'; i++) {
+        if (command[i] === "\\" && /["\\$`]/.test(command[i + 1] ?? "")) i++;
+        else if (command[i] === "$" || command[i] === "`") return { error: unsupported(command[i]) };
+        word += command[i];
+      }
+      if (i >= command.length) return { error: 'Unterminated " quote' };
+    } else if (c === "\\") {
+      if (i + 1 >= command.length) return { error: "Trailing backslash" };
+      if (quotedFrom === -1) quotedFrom = (word ?? "").length;
+      word = (word ?? "") + command[++i];
+    } else if (c === "&" && command[i + 1] === "&") {
+      const error = endStep();
+      if (error) return { error };
+      i++;
+    } else if ("|;&<>()$`".includes(c)) {
+      return { error: unsupported(c) };
+    } else {
+      word = (word ?? "") + c;
+    }
+  }
+  const error = endStep();
+  return error ? { error } : { steps };
+}
+
+/**
+ * A build step written back out as a shell command, for policy checks and
+ * approval prompts
+ */
+export function formatBuildStep(step: BuildStep): string {
+  const quote = (word: string) => (/^[\w@%+=:,./-]+$/.test(word) ? word : `'${word.replace(/'/g, "'\\''")}'`);
+  return [
+    ...Object.entries(step.env).map(([name, value]) => `${name}=${quote(value)}`),
+    ...step.argv.map(quote),
+  ].join(" ");
+}
+
+function unsupported(char: string): string {
+  return `"${char}" isn't supported in build commands: chain steps with &&, pass variables through env, ` +
+    `and put anything that needs a shell in a package.json script`;
+}
+
+async function runLimited({
+  argv,
+  cwd,
+  env,
+  timeout,
+  resources,
+  allowNetwork,
+  onOutput,
+}: {
+  argv: string[];
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  timeout: number;
+  resources: ResourceLimits;
+  allowNetwork: boolean;
+  onOutput?: (stream: "stdout" | "stderr", text: string) => void;
+}): Promise<ExecutionResult> {
+  const { prlimit, unshareArgs } = await detectSupport();
+  const asRoot = process.getuid?.() === 0;
+  const cpuSeconds = Math.max(1, Math.ceil(timeout / 1000));
+
+  const limits: SandboxLimits = {
+    timeoutMs: timeout,
+    maxOutputBytes: resources.maxOutputBytes,
+    memoryMb: prlimit ? resources.memoryMb : null,
+    cpuSeconds: prlimit ? cpuSeconds : null,
+    fileSizeMb: prlimit ? resources.fileSizeMb : null,
+    maxProcesses: prlimit && !asRoot ? resources.maxProcesses : null,
+    networkIsolated: !allowNetwork && unshareArgs !== null,
+  };
+
+  // prlimit sets the limits and execs unshare, which execs the command
+  const wrapped = [...argv];
+  if (limits.networkIsolated) wrapped.unshift("unshare", ...unshareArgs!, "--");
+  if (prlimit) {
+    const mb = 1024 * 1024;
+    const rlimits = [
+      `--data=${resources.memoryMb * mb}`,
+      `--cpu=${cpuSeconds}`,
+      `--fsize=${resources.fileSizeMb * mb}`,
+    ];
+    if (!asRoot) rlimits.push(`--nproc=${(await countUserTasks()) + resources.maxProcesses}`);
+    wrapped.unshift("prlimit", ...rlimits, "--");
+  }
+
+  return new Promise((resolve) => {
+    const proc = spawn(wrapped[0], wrapped.slice(1), {
+      cwd,
+      env,
+      stdio: ["ignore", "pipe", "pipe"],
+      detached: true,
+    });
+
+    const output = { stdout: "", stderr: "" };
+    const bytes = { stdout: 0, stderr: 0 };
+    let truncated = false;
+    let timedOut = false;
+
+    const killGroup = () => {
       try {
-        proc.kill();
+        if (proc.pid) process.kill(-proc.pid, "SIGKILL");
       } catch {}
-    }, timeout + 1000);
+    };
+
+    const collect = (stream: "stdout" | "stderr") => (chunk: Buffer) => {
+      const room = resources.maxOutputBytes - bytes[stream];
+      bytes[stream] += chunk.length;
+      if (room > 0) {
+        const text = chunk.subarray(0, room).toString("utf-8");
+        output[stream] += text;
+        onOutput?.(stream, text);
+      }
+      if (chunk.length > room && !truncated) {
+        truncated = true;
+        killGroup();
+      }
+    };
+    proc.stdout.on("data", collect("stdout"));
+    proc.stderr.on("data", collect("stderr"));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, timeout);
+
+    proc.on("error", (err) => {
+      clearTimeout(timer);
+      resolve({ stdout: output.stdout, stderr: `${output.stderr}${err.message}`, exitCode: 1, limits });
+    });
+
+    proc.on("close", (code, signal) => {
+      clearTimeout(timer);
+      let stderr = output.stderr;
+      if (timedOut) {
+        stderr += `\n[Execution timed out after ${timeout / 1000} seconds]`;
+      } else if (truncated) {
+        stderr += `\n[Output exceeded ${resources.maxOutputBytes} bytes; execution stopped]`;
+      } else if (signal === "SIGXCPU") {
+        stderr += `\n[CPU time limit of ${cpuSeconds} seconds exceeded]`;
+      } else if (signal === "SIGXFSZ") {
+        stderr += `\n[File size limit of ${resources.fileSizeMb} MB exceeded]`;
+      }
+
+      resolve({
+        stdout: output.stdout,
+        stderr,
+        exitCode: code ?? 1,
+        ...(truncated && { outputTruncated: true }),
+        limits,
+      });
+    });
   });
 }
 
@@ -0,0 +1,231 @@
+/**
+ * Global Run Scheduler
+ *
+ * Caps how many conversations orchestrate at once and how many agents are
+ * actively working across all of them. Conversations over the limit wait in
+ * a queue ordered by priority (higher first), then arrival. Agent slots are
+ * held only while an agent is working: a manager waiting on its crew lends
+ * its slot to them (otherwise a full house of managers would deadlock), and
+ * an agent in standby after submitting its result gives its slot up.
+ */
+
+import { prisma } from "./db";
+
+// ==================== LIMITS ====================
+
+export const SCHEDULER_SETTING_KEYS = {
+  maxConversations: "maxConcurrentConversations",
+  maxAgents: "maxConcurrentAgents",
+} as const;
+
+export const DEFAULT_SCHEDULER_LIMITS = {
+  maxConversations: 3,
+  maxAgents: 8,
+};
+
+/**
+ * Validate a scheduler setting value. Returns an error message, or null if
+ * the value is fine (or the key isn't a scheduler setting). Empty restores
+ * the default.
+ */
+export function validateSchedulerSetting(key: string, value: string): string | null {
+  if (!(Object.values(SCHEDULER_SETTING_KEYS) as string[]).includes(key) || value === "") return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? null : `${key} must be a positive integer`;
+}
+
+let limits = { ...DEFAULT_SCHEDULER_LIMITS };
+let limitsLoaded = false;
+
+/**
+ * Reload limits from settings. Raising a limit admits waiting work right away.
+ */
+export async function loadSchedulerLimits(): Promise<void> {
+  const settings = await prisma.setting.findMany({
+    where: { key: { in: Object.values(SCHEDULER_SETTING_KEYS) } },
+  });
+  const read = (key: string, fallback: number) => {
+    const value = parseInt(settings.find((s) => s.key === key)?.value ?? "", 10);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+  limits = {
+    maxConversations: read(SCHEDULER_SETTING_KEYS.maxConversations, DEFAULT_SCHEDULER_LIMITS.maxConversations),
+    maxAgents: read(SCHEDULER_SETTING_KEYS.maxAgents, DEFAULT_SCHEDULER_LIMITS.maxAgents),
+  };
+  limitsLoaded = true;
+  drainConversations();
+  drainAgents();
+}
+
+async function ensureLimitsLoaded(): Promise<void> {
+  if (!limitsLoaded) await loadSchedulerLimits();
+}
+
+// ==================== CONVERSATION QUEUE ====================
+
+interface QueuedConversation {
+  conversationId: string;
+  priority: number;
+  admit: () => void;
+  onPosition: (position: number) => void;
+}
+
+const runningConversations = new Set<string>();
+const conversationQueue: QueuedConversation[] = [];
+
+function notifyPositions(): void {
+  conversationQueue.forEach((entry, index) => entry.onPosition(index + 1));
+}
+
+function drainConversations(): void {
+  let admitted = false;
+  while (runningConversations.size < limits.maxConversations && conversationQueue.length > 0) {
+    conversationQueue.shift()!.admit();
+    admitted = true;
+  }
+  if (admitted) notifyPositions();
+}
+
+/**
+ * Wait for a conversation slot. onQueued is called with the 1-based queue
+ * position whenever it changes; it isn't called if a slot is free right away.
+ * Resolves false if the signal aborts while waiting.
+ */
+export async function admitConversation(
+  conversationId: string,
+  priority: number,
+  signal: AbortSignal,
+  onQueued: (position: number) => void
+): Promise<boolean> {
+  await ensureLimitsLoaded();
+  if (signal.aborted) return false;
+
+  if (conversationQueue.length === 0 && runningConversations.size < limits.maxConversations) {
+    runningConversations.add(conversationId);
+    return true;
+  }
+
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      const index = conversationQueue.indexOf(entry);
+      if (index !== -1) conversationQueue.splice(index, 1);
+      notifyPositions();
+      resolve(false);
+    };
+    const entry: QueuedConversation = {
+      conversationId,
+      priority,
+      admit: () => {
+        signal.removeEventListener("abort", onAbort);
+        runningConversations.add(conversationId);
+        resolve(true);
+      },
+      onPosition: onQueued,
+    };
+
+    // Higher priority first; equal priorities keep arrival order
+    const insertAt = conversationQueue.findIndex((e) => e.priority < priority);
+    conversationQueue.splice(insertAt === -1 ? conversationQueue.length : insertAt, 0, entry);
+    signal.addEventListener("abort", onAbort, { once: true });
+    notifyPositions();
+  });
+}
+
+export function releaseConversation(conversationId: string): void {
+  if (runningConversations.delete(conversationId)) drainConversations();
+}
+
+/**
+ * 1-based position in the queue, or null if the conversation isn't waiting
+ */
+export function getQueuePosition(conversationId: string): number | null {
+  const index = conversationQueue.findIndex((e) => e.conversationId === conversationId);
+  return index === -1 ? null : index + 1;
+}
+
+// ==================== AGENT SLOTS ====================
+
+let agentsWorking = 0;
+const agentWaiters: Array<() => void> = [];
+
+function drainAgents(): void {
+  while (agentsWorking < limits.maxAgents && agentWaiters.length > 0) {
+    agentsWorking++;
+    agentWaiters.shift()!();
+  }
+}
+
+async function acquireAgentSlot(signal?: AbortSignal): Promise<boolean> {
+  await ensureLimitsLoaded();
+  if (signal?.aborted) return false;
+  if (agentsWorking < limits.maxAgents && agentWaiters.length === 0) {
+    agentsWorking++;
+    return true;
+  }
+
+  return new Promise((resolve) => {
+    const grant = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(true);
+    };
+    const onAbort = () => {
+      const index = agentWaiters.indexOf(grant);
+      if (index !== -1) agentWaiters.splice(index, 1);
+      resolve(false);
+    };
+    agentWaiters.push(grant);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function releaseAgentSlot(): void {
+  agentsWorking--;
+  drainAgents();
+}
+
+/**
+ * One agent's claim on a working slot
+ */
+export class AgentSlot {
+  private held = true;
+  private lent = 0;
+  private released = false;
+
+  constructor(private signal?: AbortSignal) {}
+
+  /**
+   * Give the slot up while waiting on delegated work, and take it back after.
+   * Concurrent delegations share one hand-off.
+   */
+  async lend<T>(work: () => Promise<T>): Promise<T> {
+    if (this.lent++ === 0 && this.held) {
+      this.held = false;
+      releaseAgentSlot();
+    }
+    try {
+      return await work();
+    } finally {
+      if (--this.lent === 0 && !this.released) {
+        const acquired = await acquireAgentSlot(this.signal);
+        // The agent may have finished or started delegating again meanwhile
+        if (acquired && (this.released || this.lent > 0)) releaseAgentSlot();
+        else if (acquired) this.held = true;
+      }
+    }
+  }
+
+  release(): void {
+    this.released = true;
+    if (this.held) {
+      this.held = false;
+      releaseAgentSlot();
+    }
+  }
+}
+
+/**
+ * Wait for a working slot. Resolves null if the signal aborts first.
+ */
+export async function claimAgentSlot(signal?: AbortSignal): Promise<AgentSlot | null> {
+  return (await acquireAgentSlot(signal)) ? new AgentSlot(signal) : null;
+}
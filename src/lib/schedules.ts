@@ -0,0 +1,203 @@
+/**
+ * Scheduled Tasks
+ *
+ * Runs saved tasks on a cron schedule from inside the server process. Each
+ * schedule keeps its next due time in the database; a ticker checks for due
+ * schedules every 30 seconds and starts them through startTask, so they queue
+ * under the same concurrency limits as tasks started by hand. Every start,
+ * skip or failure is recorded as a ScheduleRun.
+ *
+ * A run is skipped while the schedule's previous operation is still going,
+ * and times missed while the server was down are recorded as missed rather
+ * than all fired at once on boot.
+ */
+
+import path from "path";
+import { prisma } from "./db";
+import { startTask } from "./orchestrator";
+import { nextCronTime, validateCron } from "./cron";
+
+const TICK_INTERVAL_MS = 30_000;
+
+// Conversation statuses that mean the previous run hasn't finished
+const IN_PROGRESS_STATUSES = ["pending", "queued", "active", "paused"];
+
+export interface ScheduleInput {
+  name: string;
+  cron: string;
+  task: string;
+  workingDirectory: string | null;
+  orgTemplateId: string | null;
+  dynamicMode: boolean;
+  enabled: boolean;
+}
+
+/**
+ * Validate a create (no existing schedule) or update body. Fields left out of
+ * an update keep their current values.
+ */
+export async function parseScheduleInput(
+  body: Record<string, unknown>,
+  existing?: ScheduleInput
+): Promise<{ input?: ScheduleInput; error?: string }> {
+  const pick = <K extends keyof ScheduleInput>(key: K): unknown =>
+    body[key] !== undefined ? body[key] : existing?.[key];
+
+  const name = pick("name");
+  const cron = pick("cron");
+  const task = pick("task");
+  const workingDirectory = pick("workingDirectory") || null;
+  const orgTemplateId = pick("orgTemplateId") || null;
+  const dynamicMode = pick("dynamicMode") ?? false;
+  const enabled = pick("enabled") ?? true;
+
+  if (typeof name !== "string" || !name.trim()) return { error: "name is required" };
+  if (typeof cron !== "string" || !cron.trim()) return { error: "cron is required" };
+  const cronError = validateCron(cron);
+  if (cronError) return { error: cronError };
+  if (typeof task !== "string" || !task.trim()) return { error: "task is required" };
+  if (workingDirectory !== null && (typeof workingDirectory !== "string" || !path.isAbsolute(workingDirectory))) {
+    return { error: "Working directory must be an absolute path" };
+  }
+  if (typeof dynamicMode !== "boolean") return { error: "dynamicMode must be a boolean" };
+  if (typeof enabled !== "boolean") return { error: "enabled must be a boolean" };
+  if (orgTemplateId !== null) {
+    if (typeof orgTemplateId !== "string") return { error: "orgTemplateId must be a string" };
+    if (dynamicMode) return { error: "Choose either an org template or dynamic mode, not both" };
+    const template = await prisma.orgTemplate.findUnique({ where: { id: orgTemplateId } });
+    if (!template) return { error: "Org template not found" };
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      cron: cron.trim(),
+      task,
+      workingDirectory: workingDirectory as string | null,
+      orgTemplateId: orgTemplateId as string | null,
+      dynamicMode,
+      enabled,
+    },
+  };
+}
+
+/**
+ * When an enabled schedule should next run, counting from now
+ */
+export function computeNextRun(cron: string, enabled: boolean): Date | null {
+  return enabled ? nextCronTime(cron, new Date()) : null;
+}
+
+/**
+ * Start a schedule's task now and record the run. Returns the run record.
+ */
+export async function runSchedule(scheduleId: string) {
+  const schedule = await prisma.schedule.findUnique({ where: { id: scheduleId } });
+  if (!schedule) throw new Error("Schedule not found");
+
+  const previous = await prisma.scheduleRun.findFirst({
+    where: { scheduleId, conversationId: { not: null } },
+    orderBy: { createdAt: "desc" },
+    include: { conversation: { select: { status: true } } },
+  });
+  if (previous?.conversation && IN_PROGRESS_STATUSES.includes(previous.conversation.status)) {
+    console.log(`[Schedules] Skipping "${schedule.name}": previous run is still ${previous.conversation.status}`);
+    return prisma.scheduleRun.create({
+      data: {
+        scheduleId,
+        status: "skipped",
+        error: "Previous run was still in progress",
+      },
+    });
+  }
+
+  try {
+    const conversationId = await startTask(
+      schedule.task,
+      undefined,
+      schedule.workingDirectory || undefined,
+      schedule.dynamicMode,
+      { orgTemplateId: schedule.orgTemplateId || undefined }
+    );
+    console.log(`[Schedules] Started "${schedule.name}" as conversation ${conversationId}`);
+    return prisma.scheduleRun.create({
+      data: { scheduleId, conversationId, status: "started" },
+    });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.error(`[Schedules] Failed to start "${schedule.name}":`, err);
+    return prisma.scheduleRun.create({
+      data: { scheduleId, status: "failed", error },
+    });
+  }
+}
+
+let ticking = false;
+
+/**
+ * Start every schedule that has come due. Each one's next time is moved on
+ * before it starts so a slow start can't be picked up twice.
+ */
+async function runDueSchedules(): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  try {
+    const now = new Date();
+    const due = await prisma.schedule.findMany({
+      where: { enabled: true, nextRunAt: { lte: now } },
+    });
+    for (const schedule of due) {
+      await prisma.schedule.update({
+        where: { id: schedule.id },
+        data: { lastRunAt: now, nextRunAt: computeNextRun(schedule.cron, true) },
+      });
+      await runSchedule(schedule.id);
+    }
+  } catch (err) {
+    console.error("[Schedules] Tick failed:", err);
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Record runs missed while the server was down and move those schedules on
+ * to their next time
+ */
+async function skipMissedRuns(): Promise<void> {
+  const missed = await prisma.schedule.findMany({
+    where: { enabled: true, OR: [{ nextRunAt: { lte: new Date() } }, { nextRunAt: null }] },
+  });
+  for (const schedule of missed) {
+    if (schedule.nextRunAt) {
+      await prisma.scheduleRun.create({
+        data: {
+          scheduleId: schedule.id,
+          status: "missed",
+          error: `Server was not running at ${schedule.nextRunAt.toISOString()}`,
+        },
+      });
+    }
+    await prisma.schedule.update({
+      where: { id: schedule.id },
+      data: { nextRunAt: computeNextRun(schedule.cron, true) },
+    });
+  }
+  if (missed.length > 0) {
+    console.log(`[Schedules] Rescheduled ${missed.length} schedule(s) after startup`);
+  }
+}
+
+const globalForSchedules = globalThis as unknown as { scheduleTicker?: ReturnType<typeof setInterval> };
+
+/**
+ * Start the schedule ticker (once per server process)
+ */
+export async function startScheduleRunner(): Promise<void> {
+  if (globalForSchedules.scheduleTicker) return;
+  await skipMissedRuns();
+  globalForSchedules.scheduleTicker = setInterval(() => {
+    runDueSchedules();
+  }, TICK_INTERVAL_MS);
+  console.log(`[Schedules] Runner started (checking every ${TICK_INTERVAL_MS / 1000}s)`);
+}
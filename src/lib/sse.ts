@@ -1,7 +1,9 @@
 type Listener = (event: string, data: unknown) => void;
+type GlobalListener = (conversationId: string, event: string, data: unknown) => void;
 
 class SSEManager {
   private listeners = new Map<string, Set<Listener>>();
+  private globalListeners = new Set<GlobalListener>();
 
   subscribe(conversationId: string, listener: Listener) {
     if (!this.listeners.has(conversationId)) {
@@ -13,8 +15,17 @@ class SSEManager {
     };
   }
 
+  // Receives events from every conversation (server-side consumers such as webhooks)
+  subscribeAll(listener: GlobalListener) {
+    this.globalListeners.add(listener);
+    return () => {
+      this.globalListeners.delete(listener);
+    };
+  }
+
   emit(conversationId: string, event: string, data: unknown) {
     this.listeners.get(conversationId)?.forEach((fn) => fn(event, data));
+    this.globalListeners.forEach((fn) => fn(conversationId, event, data));
   }
 }
 
@@ -0,0 +1,301 @@
+/**
+ * Tool Permission Policies
+ *
+ * Which of Claude Code's native tools an agent may use and how: the tools it
+ * gets (allowedTools) or doesn't (disallowedTools), the Bash commands it may
+ * run, and where Write/Edit may write. Each role has a built-in policy - a
+ * reviewer can read but never write - and an agent's own policy overrides
+ * its role's field by field.
+ *
+ * Policies are enforced in the agent's PreToolUse hook (see runAgent), so a
+ * denied call never runs and the agent is told why. The orchestration tools
+ * served over MCP are not affected.
+ *
+ * writablePaths only governs the file-writing tools. A shell can write
+ * anywhere, so a policy that limits writes needs bashCommands as well - the
+ * reviewer's read-only commands, for example.
+ */
+
+import * as path from "path";
+import { writtenFilePath } from "./file-conflicts";
+
+// ==================== TYPES ====================
+
+export interface ToolPolicy {
+  // Native tools the agent gets; unset means all of them
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  // Bash commands the agent may run, as patterns where * matches anything; unset means any
+  bashCommands?: string[];
+  // Where Write/Edit may write, as globs relative to the working directory; unset means anywhere.
+  // Bash isn't covered - restrict bashCommands too
+  writablePaths?: string[];
+}
+
+const TOOL_POLICY_FIELDS: Array<keyof ToolPolicy> = ["allowedTools", "disallowedTools", "bashCommands", "writablePaths"];
+
+const WRITE_TOOL_NAMES = ["Write", "Edit", "MultiEdit", "NotebookEdit"];
+
+// Looking, not touching
+const READ_ONLY_COMMANDS = [
+  "ls *",
+  "cat *",
+  "head *",
+  "tail *",
+  "wc *",
+  "grep *",
+  "rg *",
+  "pwd",
+  "git status *",
+  "git diff *",
+  "git log *",
+  "git show *",
+  "git blame *",
+];
+
+export const ROLE_TOOL_POLICIES: Record<string, ToolPolicy> = {
+  reviewer: {
+    disallowedTools: WRITE_TOOL_NAMES,
+    bashCommands: READ_ONLY_COMMANDS,
+    writablePaths: [],
+  },
+};
+
+// ==================== PARSING ====================
+
+/**
+ * Validate a tool policy from a request body. Missing or null fields inherit
+ * from the role; an empty list means "none".
+ */
+export function parseToolPolicy(input: unknown): { policy?: ToolPolicy; error?: string } {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { error: "toolPolicy must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const policy: ToolPolicy = {};
+  for (const field of TOOL_POLICY_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (!Array.isArray(value) || !value.every((v) => typeof v === "string" && v.trim() !== "")) {
+      return { error: `toolPolicy.${field} must be a list of non-empty strings` };
+    }
+    policy[field] = value.map((v: string) => v.trim());
+  }
+  return { policy: Object.keys(policy).length > 0 ? policy : undefined };
+}
+
+/**
+ * Serialize a parsed tool policy for storage (null clears it)
+ */
+export function serializeToolPolicy(policy: ToolPolicy | undefined): string | null {
+  return policy ? JSON.stringify(policy) : null;
+}
+
+/**
+ * Effective tool policy for an agent: its role's, overridden by its own
+ */
+export function resolveToolPolicy(role: string, stored: string | null | undefined): ToolPolicy {
+  let own: ToolPolicy = {};
+  if (stored) {
+    try {
+      own = parseToolPolicy(JSON.parse(stored)).policy || {};
+    } catch {
+      console.warn(`[ToolPolicy] Ignoring malformed tool policy on a ${role}`);
+    }
+  }
+  const resolved: ToolPolicy = { ...ROLE_TOOL_POLICIES[role] };
+  for (const field of TOOL_POLICY_FIELDS) {
+    if (own[field] !== undefined) resolved[field] = own[field];
+  }
+  return resolved;
+}
+
+// ==================== ENFORCEMENT ====================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Bash patterns: * matches anything, and a trailing " *" also matches the
+ * command without arguments ("git diff *" allows plain "git diff")
+ */
+export function commandMatches(pattern: string, command: string): boolean {
+  const bare = pattern.endsWith(" *") ? pattern.slice(0, -2) : null;
+  if (bare !== null && command === bare) return true;
+  const source = pattern.split("*").map((part) => escapeRegExp(part).replace(/\?/g, "\\?")).join(".*");
+  return new RegExp(`^${source}$`, "s").test(command);
+}
+
+/**
+ * Why arguments to an otherwise harmless command would run a program or
+ * write a file, or null if they don't. Quotes are dropped first, so quoting
+ * an option doesn't hide it.
+ */
+function unsafeArguments(part: string): string | null {
+  const [program = "", ...args] = part.split(" ").map((token) => token.replace(/['"\\]/g, ""));
+  const name = path.basename(program);
+
+  if (name === "rg" && args.some((arg) => /^--pre(-glob)?(=|$)/.test(arg))) {
+    return "rg --pre runs a program on every file searched";
+  }
+  if (name === "git") {
+    // Options before the subcommand: -c/--config-env can set any config, aliases and hooks included
+    for (let i = 0; i < args.length && args[i].startsWith("-"); i++) {
+      if (args[i] === "-c" || /^--config-env(=|$)/.test(args[i])) return "git -c can make git run arbitrary commands";
+      if (["-C", "--git-dir", "--work-tree", "--namespace"].includes(args[i])) i++;
+    }
+    if (args.some((arg) => /^--output(=|$)/.test(arg))) return "git --output writes a file";
+    if (args.includes("--ext-diff")) return "git --ext-diff runs an external diff program";
+  }
+  return null;
+}
+
+function withoutHarmlessRedirects(command: string): string {
+  return command.replace(/\d*>&\d/g, "").replace(/\d*>>?\s*\/dev\/null/g, "");
+}
+
+/**
+ * The simple commands in a chained or piped Bash command, whitespace
+ * collapsed. Splitting ignores quoting, so it can split too much but never
+ * too little.
+ */
+export function bashCommandParts(command: string): string[] {
+  return withoutHarmlessRedirects(command)
+    .split(/&&|\|\||[;|&\n]/)
+    .map((part) => part.trim().replace(/\s+/g, " "))
+    .filter(Boolean);
+}
+
+/**
+ * Why a Bash command isn't allowed by the patterns, or null if it is. Chained
+ * and piped commands are checked piece by piece. Output redirection, command
+ * substitution and options that make a command run programs or write files
+ * (rg --pre, git --output) would get around the patterns, so they're refused.
+ */
+function checkBashCommand(patterns: string[], command: string): string | null {
+  if (/\$\(|`|<\(|>\(/.test(command)) {
+    return "Command substitution isn't allowed for this agent";
+  }
+  if (withoutHarmlessRedirects(command).includes(">")) {
+    return "Output redirection isn't allowed for this agent";
+  }
+  for (const normalized of bashCommandParts(command)) {
+    if (!patterns.some((p) => commandMatches(p, normalized))) {
+      return patterns.length === 0
+        ? "This agent may not run Bash commands"
+        : `"${normalized}" doesn't match the commands this agent may run (${patterns.join(", ")})`;
+    }
+    const unsafe = unsafeArguments(normalized);
+    if (unsafe) return `"${normalized}" isn't allowed for this agent: ${unsafe}`;
+  }
+  return null;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether a file falls under one of the globs. A glob naming a directory
+ * covers everything inside it.
+ */
+function pathMatches(globs: string[], filePath: string, workingDirectory: string): boolean {
+  const absolute = path.resolve(workingDirectory, filePath);
+  const relative = path.relative(workingDirectory, absolute);
+  const insideWorkingDirectory = !relative.startsWith("..") && !path.isAbsolute(relative);
+
+  return globs.some((glob) => {
+    const regex = globToRegExp(glob.replace(/\/+$/, ""));
+    const target = path.isAbsolute(glob) ? absolute : insideWorkingDirectory ? relative : null;
+    if (target === null) return false;
+    const segments = target.split(path.sep);
+    for (let i = segments.length; i > 0; i--) {
+      if (regex.test(segments.slice(0, i).join("/"))) return true;
+    }
+    return false;
+  });
+}
+
+/**
+ * Why a tool call breaks the policy, or null if it's allowed
+ */
+export function checkToolUse(
+  policy: ToolPolicy,
+  toolName: string,
+  toolInput: Record<string, unknown>,
+  workingDirectory: string
+): string | null {
+  if (toolName.startsWith("mcp__")) return null;
+
+  if (policy.allowedTools && !policy.allowedTools.includes(toolName)) {
+    return `${toolName} isn't one of the tools this agent may use (${policy.allowedTools.join(", ") || "none"})`;
+  }
+  if (policy.disallowedTools?.includes(toolName)) {
+    return `${toolName} is not allowed for this agent`;
+  }
+
+  if (toolName === "Bash" && policy.bashCommands) {
+    const command = typeof toolInput.command === "string" ? toolInput.command : "";
+    return checkBashCommand(policy.bashCommands, command);
+  }
+
+  const filePath = writtenFilePath(toolName, toolInput);
+  if (filePath && policy.writablePaths && !pathMatches(policy.writablePaths, filePath, workingDirectory)) {
+    return policy.writablePaths.length === 0
+      ? "This agent may not write files"
+      : `${filePath} is outside the paths this agent may write to (${policy.writablePaths.join(", ")})`;
+  }
+  return null;
+}
+
+/**
+ * SDK options that keep tools the agent can't use out of its context
+ */
+export function sdkToolOptions(policy: ToolPolicy): { tools?: string[]; disallowedTools?: string[] } {
+  return {
+    ...(policy.allowedTools && { tools: policy.allowedTools }),
+    ...(policy.disallowedTools && { disallowedTools: policy.disallowedTools }),
+  };
+}
+
+/**
+ * The restrictions in words, for the agent's system prompt ("" if there are none)
+ */
+export function describeToolPolicy(policy: ToolPolicy): string {
+  const lines: string[] = [];
+  if (policy.allowedTools) lines.push(`- You may only use these tools: ${policy.allowedTools.join(", ") || "none"}`);
+  if (policy.disallowedTools?.length) lines.push(`- You may not use: ${policy.disallowedTools.join(", ")}`);
+  if (policy.bashCommands) {
+    lines.push(
+      policy.bashCommands.length === 0
+        ? "- You may not run Bash commands"
+        : `- Bash commands must match one of: ${policy.bashCommands.join(", ")} (no output redirection, command substitution, rg --pre, or git -c/--output/--ext-diff)`
+    );
+  }
+  if (policy.writablePaths) {
+    lines.push(
+      policy.writablePaths.length === 0
+        ? "- You may not write or edit files"
+        : `- You may only write files matching: ${policy.writablePaths.join(", ")} (relative to the working directory)`
+    );
+  }
+  return lines.length > 0 ? `TOOL RESTRICTIONS: Calls outside these rules are refused.\n${lines.join("\n")}` : "";
+}
@@ -0,0 +1,137 @@
+/**
+ * Unified Diffs
+ *
+ * Line-based diff (Myers' algorithm) rendered in the unified format used by
+ * git and patch, for showing what an agent changed in a file.
+ */
+
+export interface UnifiedDiff {
+  diff: string;
+  additions: number;
+  deletions: number;
+}
+
+type Op = { type: "equal" | "add" | "remove"; line: string };
+
+// Above this many combined lines the edit search gets slow; show a full replace instead
+const MAX_DIFF_LINES = 20_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers, O((N+M)D))
+ */
+function diffLines(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  if (n + m > MAX_DIFF_LINES) {
+    return [...a.map((line): Op => ({ type: "remove", line })), ...b.map((line): Op => ({ type: "add", line }))];
+  }
+
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace back from the end to recover the edits
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: "equal", line: a[--x] });
+      y--;
+    }
+    if (x === prevX) ops.push({ type: "add", line: b[--y] });
+    else ops.push({ type: "remove", line: a[--x] });
+  }
+  while (x > 0 && y > 0) {
+    ops.push({ type: "equal", line: a[--x] });
+    y--;
+  }
+  return ops.reverse();
+}
+
+/**
+ * Unified diff of two versions of a file. Either side may be empty for a
+ * created or deleted file.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldPath: string,
+  newPath: string,
+  context = 3
+): UnifiedDiff {
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const additions = ops.filter((op) => op.type === "add").length;
+  const deletions = ops.filter((op) => op.type === "remove").length;
+  if (additions === 0 && deletions === 0) return { diff: "", additions, deletions };
+
+  const out = [`--- ${oldPath}`, `+++ ${newPath}`];
+  let i = 0;
+  // Line numbers (1-based) at ops[i]
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (i < ops.length) {
+    // Skip to the next change, keeping `context` lines before it
+    let next = i;
+    while (next < ops.length && ops[next].type === "equal") next++;
+    if (next === ops.length) break;
+    const start = Math.max(i, next - context);
+    for (let j = i; j < start; j++) {
+      oldLine++;
+      newLine++;
+    }
+
+    // Extend the hunk while changes are within 2*context lines of each other
+    let end = next;
+    let lastChange = next;
+    while (end < ops.length) {
+      if (ops[end].type !== "equal") lastChange = end;
+      else if (end - lastChange > context * 2) break;
+      end++;
+    }
+    end = Math.min(ops.length, lastChange + context + 1);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "add").length;
+    const newCount = hunk.filter((op) => op.type !== "remove").length;
+    out.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    for (const op of hunk) {
+      out.push(`${op.type === "add" ? "+" : op.type === "remove" ? "-" : " "}${op.line}`);
+    }
+    oldLine += oldCount;
+    newLine += newCount;
+    i = end;
+  }
+
+  return { diff: out.join("\n") + "\n", additions, deletions };
+}
@@ -0,0 +1,200 @@
+/**
+ * Token Usage and Cost Accounting
+ *
+ * Records input/output/cache tokens and estimated cost for every agent run,
+ * keyed by conversation, agent and model, and rolls them up for the UI.
+ */
+
+import { prisma } from "./db";
+import { isReplaying } from "./cassette";
+
+// ==================== TYPES ====================
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+/**
+ * Usage for one model within an agent run. costUsd is set when the
+ * provider reports an exact figure (the Claude Agent SDK does).
+ */
+export interface ModelUsage extends TokenUsage {
+  model: string;
+  costUsd?: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+  runs: number;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  byAgent: Array<UsageTotals & { agentId: string | null; agentName: string; models: string[] }>;
+  byModel: Array<UsageTotals & { model: string; providerId: string }>;
+  byProvider: Array<UsageTotals & { providerId: string }>;
+}
+
+// ==================== PRICING ====================
+
+/** USD per million tokens */
+interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+// Matched by longest prefix. Estimates only - local models are free.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-3-opus": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1, cacheWrite: 0 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 0 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075, cacheWrite: 0 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25, cacheWrite: 0 },
+  "o3-mini": { input: 1.1, output: 4.4, cacheRead: 0.55, cacheWrite: 0 },
+  "o1": { input: 15, output: 60, cacheRead: 7.5, cacheWrite: 0 },
+  "kimi-k2.5": { input: 0.6, output: 3, cacheRead: 0.1, cacheWrite: 0 },
+  "kimi-latest": { input: 2, output: 5, cacheRead: 0.15, cacheWrite: 0 },
+  "moonshot-v1-128k": { input: 2, output: 5, cacheRead: 0, cacheWrite: 0 },
+  "moonshot-v1-32k": { input: 1, output: 3, cacheRead: 0, cacheWrite: 0 },
+  "moonshot-v1-8k": { input: 0.2, output: 2, cacheRead: 0, cacheWrite: 0 },
+};
+
+const PRICING_PREFIXES = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length);
+
+/**
+ * Estimate the cost of a run. Unknown models (and local providers) cost 0.
+ */
+export function estimateCost(model: string, usage: TokenUsage, providerId?: string): number {
+  if (providerId === "local") return 0;
+  const prefix = PRICING_PREFIXES.find((p) => model.startsWith(p));
+  if (!prefix) return 0;
+
+  const price = MODEL_PRICING[prefix];
+  return (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * price.cacheRead +
+    usage.cacheWriteTokens * price.cacheWrite
+  ) / 1_000_000;
+}
+
+/**
+ * Cost of one model's usage: the reported figure when there is one, else an
+ * estimate. Replayed runs made no API calls and cost nothing.
+ */
+export function usageCost(usage: ModelUsage, providerId: string): number {
+  if (isReplaying()) return 0;
+  return usage.costUsd ?? estimateCost(usage.model, usage, providerId);
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+// ==================== RECORDING ====================
+
+/**
+ * Persist usage for one agent run (one row per model used)
+ */
+export async function recordUsage(params: {
+  conversationId: string;
+  agentId: string | null;
+  agentName: string;
+  providerId: string;
+  usage: ModelUsage[];
+}): Promise<void> {
+  const rows = params.usage.filter(
+    (u) => u.inputTokens + u.outputTokens + u.cacheReadTokens + u.cacheWriteTokens > 0
+  );
+  if (rows.length === 0) return;
+
+  await prisma.usageRecord.createMany({
+    data: rows.map((u) => ({
+      conversationId: params.conversationId,
+      agentId: params.agentId,
+      agentName: params.agentName,
+      providerId: params.providerId,
+      model: u.model,
+      inputTokens: u.inputTokens,
+      outputTokens: u.outputTokens,
+      cacheReadTokens: u.cacheReadTokens,
+      cacheWriteTokens: u.cacheWriteTokens,
+      costUsd: usageCost(u, params.providerId),
+    })),
+  });
+}
+
+// ==================== REPORTING ====================
+
+function emptyTotals(): UsageTotals {
+  return { ...emptyUsage(), costUsd: 0, runs: 0 };
+}
+
+function addTo(totals: UsageTotals, row: TokenUsage & { costUsd: number }): void {
+  totals.inputTokens += row.inputTokens;
+  totals.outputTokens += row.outputTokens;
+  totals.cacheReadTokens += row.cacheReadTokens;
+  totals.cacheWriteTokens += row.cacheWriteTokens;
+  totals.costUsd += row.costUsd;
+  totals.runs += 1;
+}
+
+/**
+ * Roll up all usage for a conversation by agent, model and provider.
+ * Breakdowns are sorted by cost, most expensive first.
+ */
+export async function getConversationUsage(conversationId: string): Promise<UsageSummary> {
+  const records = await prisma.usageRecord.findMany({
+    where: { conversationId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const totals = emptyTotals();
+  const byAgent = new Map<string, UsageSummary["byAgent"][number]>();
+  const byModel = new Map<string, UsageSummary["byModel"][number]>();
+  const byProvider = new Map<string, UsageSummary["byProvider"][number]>();
+
+  for (const record of records) {
+    addTo(totals, record);
+
+    const agentKey = record.agentId || record.agentName;
+    const agent = byAgent.get(agentKey) || {
+      ...emptyTotals(),
+      agentId: record.agentId,
+      agentName: record.agentName,
+      models: [],
+    };
+    addTo(agent, record);
+    if (!agent.models.includes(record.model)) agent.models.push(record.model);
+    byAgent.set(agentKey, agent);
+
+    const model = byModel.get(record.model) || { ...emptyTotals(), model: record.model, providerId: record.providerId };
+    addTo(model, record);
+    byModel.set(record.model, model);
+
+    const provider = byProvider.get(record.providerId) || { ...emptyTotals(), providerId: record.providerId };
+    addTo(provider, record);
+    byProvider.set(record.providerId, provider);
+  }
+
+  const byCost = <T extends UsageTotals>(a: T, b: T) => b.costUsd - a.costUsd;
+
+  return {
+    totals,
+    byAgent: Array.from(byAgent.values()).sort(byCost),
+    byModel: Array.from(byModel.values()).sort(byCost),
+    byProvider: Array.from(byProvider.values()).sort(byCost),
+  };
+}
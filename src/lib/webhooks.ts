@@ -0,0 +1,231 @@
+/**
+ * Outbound Webhooks
+ *
+ * Forwards conversation events to configured URLs so outside tooling can react
+ * when a job finishes, fails or needs the boss, without a browser tab open.
+ * Every event that reaches the SSE stream is a candidate; each webhook picks
+ * the events it wants (or "*" for all of them).
+ *
+ * Deliveries are POSTed as JSON and retried with withRetry on network errors,
+ * timeouts and 408/429/5xx responses. Each delivery is logged with its final
+ * status. With a secret set, requests carry
+ * X-AgentMafia-Signature: sha256=HMAC-SHA256(secret, "<timestamp>.<body>")
+ * alongside X-AgentMafia-Timestamp, so receivers can verify origin and reject
+ * replays.
+ */
+
+import * as crypto from "crypto";
+import { prisma } from "./db";
+import { sseManager } from "./sse";
+import { withRetry, isTransientError } from "./retry";
+
+// Events offered in the UI; any emitted event name can be subscribed to
+export const WEBHOOK_EVENTS = [
+  "task_start",
+  "task_complete",
+  "task_error",
+  "task_stopped",
+  "task_paused",
+  "task_resumed",
+  "task_queued",
+  "escalation",
+  "escalation_answered",
+  "budget_warning",
+  "budget_exceeded",
+  "agent_error",
+  "run_interrupted",
+] as const;
+
+// Never forwarded: one per streamed token or chunk of build output
+const EXCLUDED_EVENTS = new Set(["agent_stream", "build_progress"]);
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 4;
+
+interface ActiveWebhook {
+  id: string;
+  url: string;
+  events: string[];
+  secret: string | null;
+}
+
+/**
+ * Parse a webhook's stored event filter
+ */
+export function parseWebhookEvents(events: string): string[] {
+  try {
+    const parsed = JSON.parse(events);
+    return Array.isArray(parsed) ? parsed.filter((e): e is string => typeof e === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Validate a webhook create/update body. Fields left out of an update keep
+ * their current values. An empty secret removes it.
+ */
+export function parseWebhookInput(
+  body: Record<string, unknown>,
+  existing?: { name: string; url: string; events: string; secret: string | null; enabled: boolean }
+): { input?: { name: string; url: string; events: string; secret: string | null; enabled: boolean }; error?: string } {
+  const name = body.name ?? existing?.name;
+  const url = body.url ?? existing?.url;
+  const events = body.events ?? (existing ? parseWebhookEvents(existing.events) : undefined);
+  const secret = body.secret !== undefined ? body.secret || null : existing?.secret ?? null;
+  const enabled = body.enabled ?? existing?.enabled ?? true;
+
+  if (typeof name !== "string" || !name.trim()) return { error: "name is required" };
+  if (typeof url !== "string") return { error: "url is required" };
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return { error: "url must be http or https" };
+    }
+  } catch {
+    return { error: "url is not a valid URL" };
+  }
+  if (!Array.isArray(events) || events.length === 0 || !events.every((e) => typeof e === "string" && e.trim())) {
+    return { error: "events must be a non-empty list of event names (or [\"*\"])" };
+  }
+  if (secret !== null && typeof secret !== "string") return { error: "secret must be a string" };
+  if (typeof enabled !== "boolean") return { error: "enabled must be a boolean" };
+
+  return {
+    input: {
+      name: name.trim(),
+      url,
+      events: JSON.stringify([...new Set(events.map((e: string) => e.trim()))]),
+      secret,
+      enabled,
+    },
+  };
+}
+
+// ==================== DISPATCH ====================
+
+let activeWebhooks: ActiveWebhook[] | null = null;
+
+async function loadWebhooks(): Promise<ActiveWebhook[]> {
+  if (!activeWebhooks) {
+    const rows = await prisma.webhook.findMany({ where: { enabled: true } });
+    activeWebhooks = rows.map((w) => ({ id: w.id, url: w.url, events: parseWebhookEvents(w.events), secret: w.secret }));
+  }
+  return activeWebhooks;
+}
+
+/**
+ * Drop the cached webhook list after a webhook is created, changed or removed
+ */
+export function invalidateWebhooks(): void {
+  activeWebhooks = null;
+}
+
+class WebhookHttpError extends Error {
+  constructor(readonly status: number) {
+    super(`Webhook responded with HTTP ${status}`);
+    this.name = "WebhookHttpError";
+  }
+}
+
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Deliver one event to one webhook, with retries, and log the outcome.
+ * Returns the delivery record.
+ */
+export async function deliverWebhook(
+  webhook: Pick<ActiveWebhook, "id" | "url" | "secret">,
+  event: string,
+  conversationId: string | null,
+  data: unknown
+) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: { webhookId: webhook.id, conversationId, event, payload: "" },
+  });
+
+  const conversation = conversationId
+    ? await prisma.conversation.findUnique({
+        where: { id: conversationId },
+        select: { id: true, title: true, status: true },
+      })
+    : null;
+  const body = JSON.stringify({
+    id: delivery.id,
+    event,
+    timestamp: new Date().toISOString(),
+    conversation,
+    data,
+  });
+
+  let attempts = 0;
+  let responseStatus: number | null = null;
+  try {
+    await withRetry(
+      async () => {
+        attempts++;
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        const headers: Record<string, string> = {
+          "Content-Type": "application/json",
+          "User-Agent": "AgentMafia-Webhooks",
+          "X-AgentMafia-Event": event,
+          "X-AgentMafia-Delivery": delivery.id,
+          "X-AgentMafia-Timestamp": timestamp,
+        };
+        if (webhook.secret) headers["X-AgentMafia-Signature"] = signPayload(webhook.secret, timestamp, body);
+
+        const res = await fetch(webhook.url, {
+          method: "POST",
+          headers,
+          body,
+          signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        });
+        responseStatus = res.status;
+        // Drain the body so the connection can be reused
+        await res.text().catch(() => {});
+        if (!res.ok) throw new WebhookHttpError(res.status);
+      },
+      {
+        maxAttempts: MAX_ATTEMPTS,
+        initialDelayMs: 2000,
+        maxDelayMs: 30000,
+        // fetch reports connection errors (ECONNREFUSED etc.) as the cause of a generic TypeError
+        isTransient: (error) => isTransientError(error) || isTransientError((error as { cause?: unknown }).cause),
+      }
+    );
+    return await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { payload: body, status: "delivered", attempts, responseStatus, deliveredAt: new Date() },
+    });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    console.warn(`[Webhooks] Delivery of ${event} to ${webhook.url} failed after ${attempts} attempt(s): ${error}`);
+    return await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { payload: body, status: "failed", attempts, responseStatus, error: error.slice(0, 1000) },
+    });
+  }
+}
+
+async function dispatch(conversationId: string, event: string, data: unknown): Promise<void> {
+  if (EXCLUDED_EVENTS.has(event)) return;
+  const webhooks = await loadWebhooks();
+  const matching = webhooks.filter((w) => w.events.includes("*") || w.events.includes(event));
+  await Promise.all(matching.map((w) => deliverWebhook(w, event, conversationId, data)));
+}
+
+const globalForWebhooks = globalThis as unknown as { webhookUnsubscribe?: () => void };
+
+/**
+ * Start forwarding conversation events to webhooks (once per server process)
+ */
+export function startWebhookDispatcher(): void {
+  if (globalForWebhooks.webhookUnsubscribe) return;
+  globalForWebhooks.webhookUnsubscribe = sseManager.subscribeAll((conversationId, event, data) => {
+    // Deliveries run in the background; a slow receiver never holds up the orchestration
+    dispatch(conversationId, event, data).catch((err) => console.error("[Webhooks] Dispatch failed:", err));
+  });
+  console.log("[Webhooks] Dispatcher started");
+}
@@ -0,0 +1,267 @@
+/**
+ * Isolated Workspaces
+ *
+ * delegate_task can give each target agent a private copy of the working
+ * directory, so soldiers working in parallel don't overwrite each other's
+ * files. In a git repository the copy is a detached worktree of a snapshot
+ * commit (uncommitted changes included); otherwise the files are copied
+ * through a content store of the workspace's own, kept next to it in the
+ * temp directory and deleted with it. Ignored directories such as
+ * node_modules are not copied.
+ *
+ * When the delegating agent collects the results, each workspace's changes
+ * are merged back into the shared directory, one agent at a time. A file is
+ * taken as is if the shared copy hasn't changed since the workspace was made
+ * and three-way merged (git merge-file) if it has. Anything that can't be
+ * merged cleanly is left alone in the shared directory and reported as a
+ * conflict, with the agent's version still available in its workspace.
+ *
+ * Workspaces live until the conversation's run ends so conflicting versions
+ * can be inspected. Changes an agent makes after it has been merged (e.g.
+ * while answering a follow-up question) stay in its workspace.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  captureFiles,
+  restoreFiles,
+  readSnapshotFile,
+  changedSinceSnapshot,
+  type CheckpointFiles,
+} from "./checkpoint-files";
+import { addWorktree, removeWorktree, deleteSnapshotRef, mergeFileContents, commitAgentChanges, type AgentCommit } from "./git";
+import { markFilesRecorded } from "./file-changes";
+
+const WORKSPACE_ROOT = path.join(os.tmpdir(), "agentmafia-workspaces");
+
+export interface Workspace {
+  conversationId: string;
+  agentId: string;
+  agentName: string;
+  // The shared directory it was copied from and merges back into
+  sourceDir: string;
+  // Worktree or copy, removed on cleanup
+  root: string;
+  // Base file contents of a copy (not a worktree), removed on cleanup
+  storeDir: string;
+  // Where the agent works: root, or the matching subdirectory of a worktree
+  dir: string;
+  base: CheckpointFiles;
+  refName: string;
+}
+
+export interface MergeConflict {
+  filePath: string;
+  agentName: string;
+  reason: "both_modified" | "both_created" | "modified_and_deleted" | "binary";
+  // The agent's version, or null if it deleted the file
+  workspaceFile: string | null;
+}
+
+export interface MergeResult {
+  agentId: string;
+  agentName: string;
+  // Taken from the workspace as is
+  applied: string[];
+  // Combined with changes made to the shared copy in the meantime
+  merged: string[];
+  conflicts: MergeConflict[];
+  commit: AgentCommit | null;
+}
+
+const workspaces = new Map<string, Workspace[]>();
+const workspaceDirs = new Set<string>();
+
+/**
+ * Whether a directory is an isolated workspace (changes there are committed
+ * when merged back, not when the agent finishes)
+ */
+export function isWorkspaceDir(dir: string): boolean {
+  return workspaceDirs.has(dir);
+}
+
+/**
+ * Make a private copy of sourceDir for an agent
+ */
+export async function createWorkspace({
+  conversationId,
+  sourceDir,
+  agentId,
+  agentName,
+}: {
+  conversationId: string;
+  sourceDir: string;
+  agentId: string;
+  agentName: string;
+}): Promise<Workspace> {
+  const id = `${Date.now().toString(36)}-${crypto.randomBytes(3).toString("hex")}`;
+  const slug = agentName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 30) || "agent";
+  const root = path.join(WORKSPACE_ROOT, `${conversationId.slice(-8)}-${slug}-${id}`);
+  const storeDir = `${root}.base`;
+  const refName = `workspaces/${conversationId}/${id}`;
+
+  const base = await captureFiles(sourceDir, refName, `Workspace for ${agentName}`, { storeDir });
+  let dir = root;
+  await fs.mkdir(WORKSPACE_ROOT, { recursive: true });
+  if (base.kind === "git") {
+    dir = await addWorktree(sourceDir, base.sha, root);
+  } else {
+    await fs.mkdir(root);
+    await restoreFiles(root, base);
+  }
+
+  const workspace: Workspace = { conversationId, agentId, agentName, sourceDir, root, storeDir, dir, base, refName };
+  workspaces.set(conversationId, [...(workspaces.get(conversationId) ?? []), workspace]);
+  workspaceDirs.add(dir);
+  console.log(`[Workspaces] ${agentName} works in ${dir}`);
+  return workspace;
+}
+
+function sameContent(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Merge what an agent changed in its workspace into the shared directory and
+ * commit it there as that agent
+ */
+export async function mergeWorkspace(workspace: Workspace, task: string): Promise<MergeResult> {
+  const result: MergeResult = {
+    agentId: workspace.agentId,
+    agentName: workspace.agentName,
+    applied: [],
+    merged: [],
+    conflicts: [],
+    commit: null,
+  };
+
+  for (const filePath of await changedSinceSnapshot(workspace.dir, workspace.base)) {
+    const sharedPath = path.join(workspace.sourceDir, filePath);
+    const workspacePath = path.join(workspace.dir, filePath);
+    const [base, ours, theirs] = await Promise.all([
+      readSnapshotFile(workspace.sourceDir, workspace.base, filePath),
+      fs.readFile(sharedPath).catch(() => null),
+      fs.readFile(workspacePath).catch(() => null),
+    ]);
+
+    if (sameContent(ours, theirs)) continue;
+
+    if (sameContent(ours, base)) {
+      if (theirs) {
+        await fs.mkdir(path.dirname(sharedPath), { recursive: true });
+        await fs.copyFile(workspacePath, sharedPath);
+      } else {
+        await fs.rm(sharedPath, { force: true });
+      }
+      result.applied.push(filePath);
+      continue;
+    }
+
+    // The shared copy changed as well, usually by a sibling merged earlier
+    const conflict = (reason: MergeConflict["reason"]) =>
+      result.conflicts.push({ filePath, agentName: workspace.agentName, reason, workspaceFile: theirs ? workspacePath : null });
+    if (!ours || !theirs) {
+      conflict("modified_and_deleted");
+    } else if (!base) {
+      conflict("both_created");
+    } else if (isBinary(ours) || isBinary(base) || isBinary(theirs)) {
+      conflict("binary");
+    } else {
+      const { merged, clean } = await mergeFileContents(ours, base, theirs, ["shared", "base", workspace.agentName]);
+      if (clean) {
+        await fs.writeFile(sharedPath, merged);
+        result.merged.push(filePath);
+      } else {
+        conflict("both_modified");
+      }
+    }
+  }
+
+  const changed = [...result.applied, ...result.merged];
+  if (changed.length > 0) {
+    // Already recorded against the agent in its workspace
+    await markFilesRecorded(workspace.conversationId, workspace.sourceDir, changed);
+    result.commit = await commitAgentChanges({
+      conversationId: workspace.conversationId,
+      workingDirectory: workspace.sourceDir,
+      agentId: workspace.agentId,
+      agentName: workspace.agentName,
+      task,
+    }).catch((err) => {
+      console.error(`[Workspaces] Failed to commit ${workspace.agentName}'s merged changes:`, err);
+      return null;
+    });
+  }
+  return result;
+}
+
+const CONFLICT_DESCRIPTIONS: Record<MergeConflict["reason"], string> = {
+  both_modified: "changed the same lines as changes already in the working directory",
+  both_created: "created a file that was also created in the working directory",
+  modified_and_deleted: "one side deleted the file while the other changed it",
+  binary: "changed a binary file that was also changed in the working directory",
+};
+
+/**
+ * Summarize merge results for the delegating agent. Conflicts are listed in
+ * prose and as JSON.
+ */
+export function formatMergeReport(results: MergeResult[], canEscalate: boolean): string {
+  const lines = ["[Workspace merge]"];
+  for (const r of results) {
+    const changed = r.applied.length + r.merged.length;
+    lines.push(
+      `- ${r.agentName}: ${changed} file${changed === 1 ? "" : "s"} merged into the working directory` +
+        (r.merged.length > 0 ? ` (${r.merged.length} combined with other changes)` : "") +
+        (r.conflicts.length > 0 ? `, ${r.conflicts.length} conflict${r.conflicts.length === 1 ? "" : "s"}` : "")
+    );
+  }
+
+  const conflicts = results.flatMap((r) => r.conflicts);
+  if (conflicts.length === 0) return lines.join("\n");
+
+  lines.push("", "MERGE CONFLICTS. These changes were NOT applied; the working directory still has its own version:");
+  for (const c of conflicts) {
+    lines.push(
+      `- ${c.filePath} (${c.agentName}): ${CONFLICT_DESCRIPTIONS[c.reason]}. ` +
+        (c.workspaceFile ? `${c.agentName}'s version: ${c.workspaceFile}` : `${c.agentName} deleted it.`)
+    );
+  }
+  lines.push(
+    "",
+    `Resolve each conflict by editing the file in the working directory, comparing it with the agent's version${
+      canEscalate ? ", or use escalate_to_boss if you can't decide" : ", or report it in your result if you can't decide"
+    }.`,
+    `Conflicts (JSON): ${JSON.stringify(conflicts)}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Remove a conversation's workspaces once its run is over
+ */
+export async function cleanupWorkspaces(conversationId: string): Promise<void> {
+  const list = workspaces.get(conversationId) ?? [];
+  workspaces.delete(conversationId);
+  for (const workspace of list) {
+    workspaceDirs.delete(workspace.dir);
+    try {
+      if (workspace.base.kind === "git") {
+        await removeWorktree(workspace.sourceDir, workspace.root);
+        await deleteSnapshotRef(workspace.sourceDir, workspace.refName);
+      } else {
+        await fs.rm(workspace.root, { recursive: true, force: true });
+        await fs.rm(workspace.storeDir, { recursive: true, force: true });
+      }
+    } catch (err) {
+      console.warn(`[Workspaces] Failed to remove ${workspace.root}:`, err);
+    }
+  }
+}